@@ -3,6 +3,11 @@ export interface Position {
   y: number;
 }
 
+export interface Size {
+  width: number;
+  height: number;
+}
+
 export interface MindMap {
   id: string;
   userId: string;
@@ -18,17 +23,34 @@ export interface MindMap {
 export interface MindMapSettings {
   theme: 'light' | 'dark' | 'system';
   layoutMode: 'freeform' | 'auto';
+  // Shape of the computed tree layout (defaults to 'horizontal' when missing)
+  layoutStyle?: LayoutStyle;
   defaultNodeColor?: string;
+  // Undo steps kept while editing (defaults to 200 when missing)
+  historyDepth?: number;
 }
 
+export type LayoutMode = MindMapSettings['layoutMode'];
+
+// Placement fields of a node that layout mode conversions rewrite
+export type NodePlacement = Pick<MindMapNode, 'manualOffset' | 'absolutePosition'>;
+
+export type LayoutStyle = 'horizontal' | 'balanced' | 'vertical' | 'radial';
+
 export interface MindMapNode {
   id: string;
   userId: string;
   mapId: string;
   parentId: string | null;
   text: string;
+  // Longer plain text shown as the node's tooltip (e.g. OPML `_note`)
+  note?: string;
   // Manual offset from auto-computed position (set when user drags a node)
   manualOffset?: Position;
+  // Pinned canvas position in freeform layout mode (takes precedence over the computed layout)
+  absolutePosition?: Position;
+  // Side of a first-level branch in the balanced layout (unset = chosen automatically)
+  side?: 'left' | 'right';
   // Legacy position field (kept for backward compatibility, not used in new layout)
   position?: Position;
   style?: NodeStyle;
@@ -51,6 +73,18 @@ export interface NodeStyle {
   connectionDashed?: boolean; // Use dashed line style
 }
 
+// Preset colors for node and connection color pickers
+export const COLOR_PALETTE = [
+  '#ef4444', // red
+  '#f97316', // orange
+  '#eab308', // yellow
+  '#22c55e', // green
+  '#14b8a6', // teal
+  '#3b82f6', // blue
+  '#8b5cf6', // violet
+  '#ec4899', // pink
+];
+
 export interface NodeTask {
   dueDate?: Date;
   priority?: 'low' | 'medium' | 'high';
@@ -63,10 +97,55 @@ export interface NodeAttachment {
   name?: string;
 }
 
+// Copied branches: full nodes keyed by their source IDs, roots in selection order
+export interface ClipboardSubtrees {
+  rootIds: string[];
+  nodes: MindMapNode[];
+}
+
+// Snapshot of a whole map (document in `mindmapVersions` collection)
+export interface MindMapVersion {
+  id: string;
+  userId: string;
+  mapId: string;
+  name: string;
+  // Automatic snapshots are taken while editing; manual ones are named by the user
+  isAutomatic: boolean;
+  mapName: string;
+  rootNodeId: string;
+  settings: MindMapSettings;
+  nodes: MindMapNode[];
+  // Rendered layout at snapshot time, so a version can be previewed without the editor
+  positions: Record<string, Position>;
+  sizes: Record<string, Size>;
+  createdAt: Date;
+}
+
+// How a node differs between two versions of a map
+export type NodeChangeKind = 'added' | 'deleted' | 'moved' | 'renamed';
+
+export interface NodeChange {
+  nodeId: string;
+  // Text in the newer version (older text for deleted nodes)
+  text: string;
+  kinds: NodeChangeKind[];
+  previousText?: string;
+  // Moved under another parent (otherwise only dragged to a new spot)
+  parentChanged?: boolean;
+}
+
 // Action types for undo/redo
 export type MindMapAction =
   | { type: 'ADD_NODE'; node: MindMapNode }
-  | { type: 'DELETE_NODE'; node: MindMapNode; parentId: string | null }
+  | {
+      type: 'DELETE_NODE';
+      node: MindMapNode;
+      parentId: string | null;
+      // Every node below the deleted one, as it was (offsets, styles, ...)
+      descendants: MindMapNode[];
+      // Position of the node among its siblings
+      index: number;
+    }
   | {
       type: 'SET_OFFSET';
       nodeId: string;
@@ -78,8 +157,51 @@ export type MindMapAction =
         new: Record<string, Position>;
       };
     }
-  | { type: 'UPDATE_NODE'; nodeId: string; before: Partial<MindMapNode>; after: Partial<MindMapNode> }
-  | { type: 'REPARENT_NODE'; nodeId: string; fromParentId: string | null; toParentId: string | null };
+  | {
+      type: 'SET_POSITION';
+      nodeId: string;
+      // Absolute positions of the moved node and all its descendants
+      positions: {
+        old: Record<string, Position | undefined>;
+        new: Record<string, Position>;
+      };
+    }
+  | {
+      type: 'SET_LAYOUT_MODE';
+      from: LayoutMode;
+      to: LayoutMode;
+      // Placement of every node before the conversion
+      placements: Record<string, NodePlacement>;
+    }
+  | {
+      type: 'TIDY_UP';
+      // Placement of the nudged nodes before and after tidying
+      placements: {
+        old: Record<string, NodePlacement>;
+        new: Record<string, NodePlacement>;
+      };
+    }
+  | { type: 'BATCH'; label: string; actions: MindMapAction[] }
+  | { type: 'REORDER_NODE'; nodeId: string; parentId: string; fromIndex: number; toIndex: number }
+  | {
+      type: 'UPDATE_NODE';
+      nodeId: string;
+      // Only the changed fields (undefined = the field was not set)
+      before: Partial<MindMapNode>;
+      after: Partial<MindMapNode>;
+      // When the entry was last extended (consecutive edits are coalesced)
+      timestamp: number;
+    }
+  | {
+      type: 'REPARENT_NODE';
+      nodeId: string;
+      fromParentId: string;
+      toParentId: string;
+      fromIndex: number;
+      toIndex: number;
+      // Placements of the moved subtree before it was re-laid out under the new parent
+      placements: Record<string, NodePlacement>;
+    };
 
 export interface ViewTransform {
   scale: number;
@@ -91,6 +213,8 @@ export interface MindMapState {
   currentMap: MindMap | null;
   nodes: Record<string, MindMapNode>;
   selectedNodeId: string | null;
+  // Full selection (includes selectedNodeId, the primary node, when set)
+  selectedNodeIds: string[];
   editingNodeId: string | null;
   history: {
     past: MindMapAction[];
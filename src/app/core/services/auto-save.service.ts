@@ -2,6 +2,7 @@ import { Injectable, inject, effect, DestroyRef } from '@angular/core';
 import { MindMapStore } from '../../store/mind-map.store';
 import { MindMapService } from './mind-map.service';
 import { PreviewGeneratorService } from './preview-generator.service';
+import { VersionService } from './version.service';
 
 @Injectable({
   providedIn: 'root',
@@ -10,6 +11,7 @@ export class AutoSaveService {
   private store = inject(MindMapStore);
   private mindMapService = inject(MindMapService);
   private previewGenerator = inject(PreviewGeneratorService);
+  private versionService = inject(VersionService);
 
   private saveTimeout: ReturnType<typeof setTimeout> | null = null;
   private readonly DEBOUNCE_MS = 2000; // Wait 2 seconds after last change
@@ -99,12 +101,17 @@ export class AutoSaveService {
         await this.mindMapService.deleteNodesByIds(deletedNodeIds);
       }
 
-      // Update map with new preview if needed
+      // Update map with new preview (and settings) if needed
       if (mapNeedsUpdate) {
-        const nodes = Object.values(this.store.nodes());
+        const nodes = this.store.visibleNodes();
         const positions = this.store.nodePositions();
-        const previewSvg = this.previewGenerator.generatePreview(nodes, positions);
-        await this.mindMapService.updateMap(map.id, { previewSvg });
+        const previewSvg = this.previewGenerator.generatePreview(
+          nodes,
+          positions,
+          this.store.layoutStyle(),
+          this.store.nodeSizes()
+        );
+        await this.mindMapService.updateMap(map.id, { previewSvg, settings: map.settings });
       } else {
         // Just update the timestamp
         await this.mindMapService.updateMap(map.id, {});
@@ -115,8 +122,16 @@ export class AutoSaveService {
       console.log('Auto-save complete');
     } catch (error) {
       console.error('Auto-save failed:', error);
+      return;
     } finally {
       this.isSaving = false;
     }
+
+    // Periodically keep a snapshot of the saved state (the save itself already succeeded)
+    try {
+      await this.versionService.maybeCreateAutoVersion();
+    } catch (error) {
+      console.error('Automatic version failed:', error);
+    }
   }
 }
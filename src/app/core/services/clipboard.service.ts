@@ -0,0 +1,131 @@
+import { Injectable, inject } from '@angular/core';
+import { DbService } from './db.service';
+import { ClipboardSubtrees, MindMapNode } from '../models/mind-map.model';
+
+// Custom clipboard format with the full nodes (other apps only see the plain text outline)
+const CLIPBOARD_MIME_TYPE = 'application/x-geller-map+json';
+
+// Bullets and numbering stripped from pasted outline lines ("- ", "* ", "• ", "1. ", "2) ")
+const BULLET_PATTERN = /^(?:[-*+•]|\d+[.)])\s+/;
+
+@Injectable({
+  providedIn: 'root',
+})
+export class ClipboardService {
+  private db = inject(DbService);
+
+  /**
+   * Put copied branches on the clipboard of a copy/cut event:
+   * the nodes as JSON plus an indented text outline for other apps
+   */
+  write(event: ClipboardEvent, content: ClipboardSubtrees): void {
+    if (!event.clipboardData) return;
+
+    event.clipboardData.setData(CLIPBOARD_MIME_TYPE, JSON.stringify(content));
+    event.clipboardData.setData('text/plain', this.toOutline(content));
+    event.preventDefault();
+  }
+
+  /**
+   * Read branches from a paste event. Falls back to an indented plain text outline,
+   * one node per line. Returns null when there is nothing usable.
+   */
+  read(event: ClipboardEvent): ClipboardSubtrees | null {
+    const data = event.clipboardData;
+    if (!data) return null;
+
+    const json = data.getData(CLIPBOARD_MIME_TYPE);
+    if (json) {
+      const content = this.parseJson(json);
+      if (content) return content;
+    }
+
+    const text = data.getData('text/plain');
+    return text ? this.parseOutline(text) : null;
+  }
+
+  /**
+   * Indented outline of the branches (two spaces per level)
+   */
+  toOutline(content: ClipboardSubtrees): string {
+    const nodes = new Map(content.nodes.map((node) => [node.id, node]));
+    const lines: string[] = [];
+
+    const visit = (nodeId: string, depth: number) => {
+      const node = nodes.get(nodeId);
+      if (!node) return;
+      lines.push(`${'  '.repeat(depth)}${node.text}`);
+      node.childrenIds.forEach((childId) => visit(childId, depth + 1));
+    };
+
+    content.rootIds.forEach((rootId) => visit(rootId, 0));
+    return lines.join('\n');
+  }
+
+  /**
+   * Build branches from indented text. Deeper indentation (spaces or tabs) nests a line
+   * under the closest previous line with less indentation.
+   */
+  parseOutline(text: string): ClipboardSubtrees | null {
+    const rootIds: string[] = [];
+    const nodes: MindMapNode[] = [];
+    // Open ancestors of the next line, with their indentation
+    const stack: { indent: number; node: MindMapNode }[] = [];
+    const now = new Date();
+
+    text.split(/\r?\n/).forEach((line, index) => {
+      const label = line.trim().replace(BULLET_PATTERN, '').trim();
+      if (!label) return;
+
+      const indent = this.getIndent(line);
+      while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+        stack.pop();
+      }
+
+      const parent = stack.at(-1)?.node ?? null;
+      const node: MindMapNode = {
+        id: `line_${index}`,
+        userId: '',
+        mapId: '',
+        parentId: parent?.id ?? null,
+        text: label,
+        isExpanded: true,
+        childrenIds: [],
+        order: parent ? parent.childrenIds.length : rootIds.length,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      if (parent) {
+        parent.childrenIds.push(node.id);
+      } else {
+        rootIds.push(node.id);
+      }
+      nodes.push(node);
+      stack.push({ indent, node });
+    });
+
+    return rootIds.length > 0 ? { rootIds, nodes } : null;
+  }
+
+  private parseJson(json: string): ClipboardSubtrees | null {
+    try {
+      const content = this.db.convertDates(JSON.parse(json)) as ClipboardSubtrees;
+      const valid =
+        Array.isArray(content?.rootIds) &&
+        Array.isArray(content.nodes) &&
+        content.nodes.every(
+          (node) => typeof node.id === 'string' && Array.isArray(node.childrenIds)
+        );
+      return valid ? content : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private getIndent(line: string): number {
+    const whitespace = line.match(/^\s*/)?.[0] ?? '';
+    // A tab counts as one indentation step of four spaces
+    return whitespace.replace(/\t/g, '    ').length;
+  }
+}
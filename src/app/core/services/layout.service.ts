@@ -1,43 +1,108 @@
 import { Injectable } from '@angular/core';
-import { MindMapNode, Position } from '../models/mind-map.model';
+import { LayoutStyle, MindMapNode, Position, Size } from '../models/mind-map.model';
 
 export interface ComputedLayout {
   [nodeId: string]: Position;
 }
 
-// Layout constants
+export type ConnectionAxis = 'horizontal' | 'vertical';
+
+// Node position (top-left) together with its rendered size
+export type NodeBox = Position & Size;
+
+// Cubic Bezier connection from a parent's edge to a child's edge
+export interface ConnectionCurve {
+  start: Position;
+  control1: Position;
+  control2: Position;
+  end: Position;
+}
+
+type AnchorEdge = 'left' | 'right' | 'top' | 'bottom';
+
+interface Rect {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+// Layout constants (defaults until a node reports its rendered size)
 export const LAYOUT_CONSTANTS = {
   NODE_WIDTH: 150,
   NODE_HEIGHT: 48,
+  ROOT_NODE_WIDTH: 170,
   SPACING_X: 250, // Horizontal spacing between parent and children
   SPACING_Y: 70, // Vertical spacing between siblings
+  VERTICAL_SPACING_X: 40, // Horizontal gap between siblings in top-down layout
+  VERTICAL_SPACING_Y: 120, // Vertical spacing between parent and children in top-down layout
+  RADIAL_SPACING: 220, // Minimum distance between rings in radial layout
+  RADIAL_MIN_ARC: 90, // Minimum arc length reserved per leaf on the outer ring
 };
 
+// Minimum distance kept between nodes when resolving overlaps
+const OVERLAP_MARGIN = 12;
+const MAX_OVERLAP_ITERATIONS = 50;
+// Size of the grid cells that placed nodes are bucketed into while resolving overlaps
+const OVERLAP_CELL_SIZE = 200;
+
+// Gaps between a parent's edge and its children's edge
+const GAP_X = LAYOUT_CONSTANTS.SPACING_X - LAYOUT_CONSTANTS.NODE_WIDTH;
+const GAP_Y = LAYOUT_CONSTANTS.VERTICAL_SPACING_Y - LAYOUT_CONSTANTS.NODE_HEIGHT;
+
 @Injectable({
   providedIn: 'root',
 })
 export class LayoutService {
   /**
    * Compute positions for all nodes based on tree structure.
-   * Uses a horizontal tree layout:
-   * - Root centered at (0, 0) for easy canvas centering
-   * - Children positioned to the right
-   * - Siblings spaced vertically
+   * The root is always centered at (0, 0) for easy canvas centering.
+   * - 'horizontal': children positioned to the right, siblings spaced vertically
+   * - 'balanced': root's children split between the right and left side
+   * - 'vertical': org-chart style, children centered below their parent
+   * - 'radial': first-level branches fan out around the root, one ring per depth
+   *
+   * Measured node sizes are used where known, so wrapped text and the wider
+   * root node get the room they need. Children of collapsed nodes are skipped.
    */
-  computeLayout(nodes: Record<string, MindMapNode>, rootId: string | undefined): ComputedLayout {
+  computeLayout(
+    nodes: Record<string, MindMapNode>,
+    rootId: string | undefined,
+    style: LayoutStyle = 'horizontal',
+    sizes: Record<string, Size> = {}
+  ): ComputedLayout {
     if (!rootId || !nodes[rootId]) {
       return {};
     }
 
     const layout: ComputedLayout = {};
-    this.layoutNode(nodes, rootId, 0, 0, layout);
+    switch (style) {
+      case 'balanced':
+        this.layoutBalanced(nodes, sizes, rootId, layout);
+        break;
+      case 'vertical': {
+        const widths: Record<string, number> = {};
+        this.measureSubtreeWidth(nodes, sizes, rootId, widths);
+        this.layoutNodeVertical(nodes, sizes, rootId, 0, 0, layout, widths);
+        break;
+      }
+      case 'radial':
+        this.layoutRadial(nodes, sizes, rootId, layout);
+        break;
+      default: {
+        const heights: Record<string, number> = {};
+        this.measureSubtreeHeight(nodes, sizes, rootId, heights);
+        this.layoutNode(nodes, sizes, rootId, 0, 0, layout, heights);
+      }
+    }
 
     // Offset all positions so the root node's CENTER is at (0, 0)
     // This makes centering on the canvas trivial (panX=0, panY=0)
     const rootPos = layout[rootId];
     if (rootPos) {
-      const offsetX = rootPos.x + LAYOUT_CONSTANTS.NODE_WIDTH / 2;
-      const offsetY = rootPos.y + LAYOUT_CONSTANTS.NODE_HEIGHT / 2;
+      const rootSize = this.getNodeSize(nodes[rootId], sizes);
+      const offsetX = rootPos.x + rootSize.width / 2;
+      const offsetY = rootPos.y + rootSize.height / 2;
 
       for (const nodeId of Object.keys(layout)) {
         layout[nodeId] = {
@@ -50,51 +115,631 @@ export class LayoutService {
     return layout;
   }
 
+  /**
+   * Rendered size of a node, falling back to the default size until it has been measured
+   */
+  getNodeSize(node: MindMapNode | undefined, sizes: Record<string, Size>): Size {
+    const measured = node ? sizes[node.id] : undefined;
+    if (measured) return measured;
+
+    return {
+      width: node && !node.parentId ? LAYOUT_CONSTANTS.ROOT_NODE_WIDTH : LAYOUT_CONSTANTS.NODE_WIDTH,
+      height: LAYOUT_CONSTANTS.NODE_HEIGHT,
+    };
+  }
+
+  /**
+   * Which axis connections should leave a node on for a given layout style.
+   * Tree layouts connect along their growth axis; radial picks the dominant direction (null).
+   */
+  getConnectionAxis(style: LayoutStyle): ConnectionAxis | null {
+    switch (style) {
+      case 'radial':
+        return null;
+      case 'vertical':
+        return 'vertical';
+      default:
+        return 'horizontal';
+    }
+  }
+
+  /**
+   * Curve of the connection between a parent and a child node. Tree layouts force their
+   * growth axis, using the side the child sits on (left side of a balanced map connects
+   * right-to-left); otherwise the dominant direction between the centers decides.
+   */
+  getConnectionCurve(
+    parent: NodeBox,
+    child: NodeBox,
+    axis: ConnectionAxis | null
+  ): ConnectionCurve {
+    const dx = child.x + child.width / 2 - (parent.x + parent.width / 2);
+    const dy = child.y + child.height / 2 - (parent.y + parent.height / 2);
+    const horizontal = axis ? axis === 'horizontal' : Math.abs(dx) >= Math.abs(dy);
+
+    let parentEdge: AnchorEdge;
+    let childEdge: AnchorEdge;
+    if (horizontal) {
+      [parentEdge, childEdge] = dx >= 0 ? ['right', 'left'] : ['left', 'right'];
+    } else {
+      [parentEdge, childEdge] = dy >= 0 ? ['bottom', 'top'] : ['top', 'bottom'];
+    }
+
+    const start = this.getAnchorPoint(parent, parentEdge);
+    const end = this.getAnchorPoint(child, childEdge);
+    const distance = Math.hypot(end.x - start.x, end.y - start.y);
+    const controlOffset = Math.max(distance * 0.4, 40);
+
+    const startDir = this.getEdgeDirection(parentEdge);
+    const endDir = this.getEdgeDirection(childEdge);
+
+    return {
+      start,
+      control1: {
+        x: start.x + startDir.x * controlOffset,
+        y: start.y + startDir.y * controlOffset,
+      },
+      control2: { x: end.x + endDir.x * controlOffset, y: end.y + endDir.y * controlOffset },
+      end,
+    };
+  }
+
+  /**
+   * Axis along which overlapping subtrees are pushed apart (siblings' stacking axis)
+   */
+  getCrossAxis(style: LayoutStyle): 'x' | 'y' {
+    return style === 'vertical' ? 'x' : 'y';
+  }
+
+  /**
+   * Push subtrees apart where nodes overlap.
+   * Nodes in `fixedIds` (and the root) never move. Every other node is checked,
+   * parents first, against everything placed before it; on a collision it is
+   * shifted along `axis` together with its movable descendants, always away from
+   * the first obstacle it hit.
+   */
+  resolveOverlaps(
+    nodes: Record<string, MindMapNode>,
+    rootId: string | undefined,
+    positions: Record<string, Position>,
+    sizes: Record<string, Size>,
+    fixedIds: Set<string>,
+    axis: 'x' | 'y'
+  ): Record<string, Position> {
+    if (!rootId || !nodes[rootId]) return positions;
+
+    const resolved = { ...positions };
+    const order = this.getTreeOrder(nodes, rootId);
+    const isFixed = (id: string) => id === rootId || fixedIds.has(id);
+    const rectOf = (id: string) => this.getRect(resolved[id], this.getNodeSize(nodes[id], sizes));
+
+    // Placed nodes never move again, so they are bucketed by grid cell and each check
+    // only looks at the nodes around it
+    const grid = new Map<string, string[]>();
+    const placedOrder = new Map<string, number>();
+    const place = (id: string) => {
+      placedOrder.set(id, placedOrder.size);
+      for (const key of this.getCellKeys(rectOf(id))) {
+        const cell = grid.get(key);
+        if (cell) cell.push(id);
+        else grid.set(key, [id]);
+      }
+    };
+    // The first placed node that overlaps the rectangle
+    const findObstacle = (rect: Rect): string | undefined => {
+      let found: string | undefined;
+      for (const key of this.getCellKeys(rect)) {
+        for (const id of grid.get(key) ?? []) {
+          const earlier = found === undefined || placedOrder.get(id)! < placedOrder.get(found)!;
+          if (earlier && this.rectsOverlap(rect, rectOf(id))) found = id;
+        }
+      }
+      return found;
+    };
+    order.filter(isFixed).forEach(place);
+
+    for (const nodeId of order) {
+      if (isFixed(nodeId)) continue;
+
+      let direction = 0;
+      for (let i = 0; i < MAX_OVERLAP_ITERATIONS; i++) {
+        const rect = rectOf(nodeId);
+        const obstacleId = findObstacle(rect);
+        if (!obstacleId) break;
+
+        const obstacle = rectOf(obstacleId);
+        const [min, max] = axis === 'x' ? (['left', 'right'] as const) : (['top', 'bottom'] as const);
+        if (direction === 0) {
+          direction = rect[min] + rect[max] < obstacle[min] + obstacle[max] ? -1 : 1;
+        }
+
+        const amount =
+          direction > 0
+            ? obstacle[max] + OVERLAP_MARGIN - rect[min]
+            : obstacle[min] - OVERLAP_MARGIN - rect[max];
+        this.shiftSubtree(nodes, nodeId, axis, amount, isFixed, resolved);
+      }
+
+      place(nodeId);
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Move a node and its movable (visible, non-fixed) descendants along one axis
+   */
+  private shiftSubtree(
+    nodes: Record<string, MindMapNode>,
+    nodeId: string,
+    axis: 'x' | 'y',
+    amount: number,
+    isFixed: (id: string) => boolean,
+    positions: Record<string, Position>
+  ): void {
+    const pos = positions[nodeId];
+    if (pos) {
+      positions[nodeId] = { ...pos, [axis]: pos[axis] + amount };
+    }
+
+    for (const child of this.getChildren(nodes, nodes[nodeId])) {
+      if (!isFixed(child.id)) {
+        this.shiftSubtree(nodes, child.id, axis, amount, isFixed, positions);
+      }
+    }
+  }
+
+  /**
+   * Midpoint of the given edge of a node box, where a connection attaches
+   */
+  private getAnchorPoint(box: NodeBox, edge: AnchorEdge): Position {
+    switch (edge) {
+      case 'right':
+        return { x: box.x + box.width, y: box.y + box.height / 2 };
+      case 'left':
+        return { x: box.x, y: box.y + box.height / 2 };
+      case 'top':
+        return { x: box.x + box.width / 2, y: box.y };
+      case 'bottom':
+        return { x: box.x + box.width / 2, y: box.y + box.height };
+    }
+  }
+
+  /**
+   * Unit vector pointing out of a node edge
+   */
+  private getEdgeDirection(edge: AnchorEdge): Position {
+    switch (edge) {
+      case 'right':
+        return { x: 1, y: 0 };
+      case 'left':
+        return { x: -1, y: 0 };
+      case 'top':
+        return { x: 0, y: -1 };
+      case 'bottom':
+        return { x: 0, y: 1 };
+    }
+  }
+
+  /**
+   * Visible node IDs in breadth-first order (parents before children)
+   */
+  private getTreeOrder(nodes: Record<string, MindMapNode>, rootId: string): string[] {
+    const order: string[] = [];
+    const queue = [rootId];
+
+    while (queue.length > 0) {
+      const nodeId = queue.shift()!;
+      order.push(nodeId);
+      queue.push(...this.getChildren(nodes, nodes[nodeId]).map((child) => child.id));
+    }
+    return order;
+  }
+
+  private getRect(pos: Position | undefined, size: Size): Rect {
+    const x = pos?.x ?? 0;
+    const y = pos?.y ?? 0;
+    return { left: x, top: y, right: x + size.width, bottom: y + size.height };
+  }
+
+  private getCellKeys(rect: Rect): string[] {
+    const keys: string[] = [];
+    const [left, right] = [rect.left, rect.right].map((x) => Math.floor(x / OVERLAP_CELL_SIZE));
+    const [top, bottom] = [rect.top, rect.bottom].map((y) => Math.floor(y / OVERLAP_CELL_SIZE));
+
+    for (let x = left; x <= right; x++) {
+      for (let y = top; y <= bottom; y++) {
+        keys.push(`${x},${y}`);
+      }
+    }
+    return keys;
+  }
+
+  private rectsOverlap(a: Rect, b: Rect): boolean {
+    return a.left < b.right && b.left < a.right && a.top < b.bottom && b.top < a.bottom;
+  }
+
   /**
    * Recursively layout a node and its children.
+   * edgeX is the edge facing the parent: the left edge when growing to the
+   * right (direction 1), the right edge when mirrored to the left (-1).
    * Returns the total height used by this subtree.
    */
   private layoutNode(
     nodes: Record<string, MindMapNode>,
+    sizes: Record<string, Size>,
     nodeId: string,
-    depth: number,
+    edgeX: number,
     startY: number,
-    layout: ComputedLayout
+    layout: ComputedLayout,
+    heights: Record<string, number>,
+    direction: 1 | -1 = 1
   ): number {
     const node = nodes[nodeId];
     if (!node) return 0;
 
-    const children = node.childrenIds
-      .map((id) => nodes[id])
-      .filter((n): n is MindMapNode => n !== undefined);
-
-    // Calculate x position based on depth
-    const x = depth * LAYOUT_CONSTANTS.SPACING_X;
+    const size = this.getNodeSize(node, sizes);
+    const children = this.getChildren(nodes, node);
+    const x = direction === 1 ? edgeX : edgeX - size.width;
+    const subtreeHeight = heights[nodeId];
 
     if (children.length === 0) {
       // Leaf node - position at startY
       layout[nodeId] = { x, y: startY };
-      return LAYOUT_CONSTANTS.NODE_HEIGHT + LAYOUT_CONSTANTS.SPACING_Y;
+      return subtreeHeight;
+    }
+
+    // Children are centered in this subtree's band when the node itself is taller
+    const childrenHeight = children.reduce((sum, child) => sum + heights[child.id], 0);
+    const childEdgeX = direction === 1 ? x + size.width + GAP_X : x - GAP_X;
+    let currentY = startY + (subtreeHeight - childrenHeight) / 2;
+
+    for (const child of children) {
+      currentY += this.layoutNode(
+        nodes,
+        sizes,
+        child.id,
+        childEdgeX,
+        currentY,
+        layout,
+        heights,
+        direction
+      );
+    }
+
+    // Position this node vertically centered relative to its first and last child
+    const centerY = this.getChildrenCenter(nodes, sizes, children, layout, 'y');
+    layout[nodeId] = { x, y: centerY - size.height / 2 };
+
+    return subtreeHeight;
+  }
+
+  /**
+   * Recursively layout a node and its children top-down (org chart).
+   * Returns the total width used by this subtree.
+   */
+  private layoutNodeVertical(
+    nodes: Record<string, MindMapNode>,
+    sizes: Record<string, Size>,
+    nodeId: string,
+    edgeY: number,
+    startX: number,
+    layout: ComputedLayout,
+    widths: Record<string, number>
+  ): number {
+    const node = nodes[nodeId];
+    if (!node) return 0;
+
+    const size = this.getNodeSize(node, sizes);
+    const children = this.getChildren(nodes, node);
+    const subtreeWidth = widths[nodeId];
+
+    if (children.length === 0) {
+      layout[nodeId] = { x: startX, y: edgeY };
+      return subtreeWidth;
     }
 
-    // Layout children first to determine subtree height
-    let currentY = startY;
-    let totalChildHeight = 0;
+    const childrenWidth = children.reduce((sum, child) => sum + widths[child.id], 0);
+    const childEdgeY = edgeY + size.height + GAP_Y;
+    let currentX = startX + (subtreeWidth - childrenWidth) / 2;
 
     for (const child of children) {
-      const childHeight = this.layoutNode(nodes, child.id, depth + 1, currentY, layout);
-      currentY += childHeight;
-      totalChildHeight += childHeight;
+      currentX += this.layoutNodeVertical(
+        nodes,
+        sizes,
+        child.id,
+        childEdgeY,
+        currentX,
+        layout,
+        widths
+      );
+    }
+
+    // Center this node horizontally above its first and last child
+    const centerX = this.getChildrenCenter(nodes, sizes, children, layout, 'x');
+    layout[nodeId] = { x: centerX - size.width / 2, y: edgeY };
+
+    return subtreeWidth;
+  }
+
+  /**
+   * Balanced layout: the root's children are split between the right and the left
+   * side so both halves have roughly the same height. Each side keeps sibling order
+   * and is vertically centered on the root. When any branch has a preferred `side`
+   * (e.g. from a FreeMind import), the split follows those sides instead.
+   */
+  private layoutBalanced(
+    nodes: Record<string, MindMapNode>,
+    sizes: Record<string, Size>,
+    rootId: string,
+    layout: ComputedLayout
+  ): void {
+    const heights: Record<string, number> = {};
+    const childIds = this.getChildren(nodes, nodes[rootId]).map((child) => child.id);
+    const childHeights = childIds.map((id) =>
+      this.measureSubtreeHeight(nodes, sizes, id, heights)
+    );
+    const totalHeight = childHeights.reduce((sum, h) => sum + h, 0);
+
+    // Fill the right side while a child's midpoint still falls in the first half
+    let rightCount = 0;
+    let rightHeight = 0;
+    while (
+      rightCount < childIds.length &&
+      (rightCount === 0 || rightHeight + childHeights[rightCount] / 2 <= totalHeight / 2)
+    ) {
+      rightHeight += childHeights[rightCount];
+      rightCount++;
+    }
+
+    let rightIds = childIds.slice(0, rightCount);
+    let leftIds = childIds.slice(rightCount);
+    if (childIds.some((id) => nodes[id].side)) {
+      rightIds = childIds.filter((id) => nodes[id].side !== 'left');
+      leftIds = childIds.filter((id) => nodes[id].side === 'left');
     }
 
-    // Position this node vertically centered relative to its children
-    const firstChildY = layout[children[0].id]?.y ?? startY;
-    const lastChildY = layout[children[children.length - 1].id]?.y ?? startY;
-    const centerY = (firstChildY + lastChildY) / 2;
+    const rootSize = this.getNodeSize(nodes[rootId], sizes);
+    layout[rootId] = { x: 0, y: 0 };
 
-    layout[nodeId] = { x, y: centerY };
+    const sides: { ids: string[]; edgeX: number; direction: 1 | -1 }[] = [
+      { ids: rightIds, edgeX: rootSize.width + GAP_X, direction: 1 },
+      { ids: leftIds, edgeX: -GAP_X, direction: -1 },
+    ];
 
-    return totalChildHeight;
+    for (const side of sides) {
+      if (side.ids.length === 0) continue;
+
+      const sideLayout: ComputedLayout = {};
+      let currentY = 0;
+      for (const childId of side.ids) {
+        currentY += this.layoutNode(
+          nodes,
+          sizes,
+          childId,
+          side.edgeX,
+          currentY,
+          sideLayout,
+          heights,
+          side.direction
+        );
+      }
+
+      // Center the side's first-level branches on the root
+      const sideChildren = side.ids.map((id) => nodes[id]);
+      const centerY = this.getChildrenCenter(nodes, sizes, sideChildren, sideLayout, 'y');
+      const shiftY = rootSize.height / 2 - centerY;
+
+      for (const [nodeId, pos] of Object.entries(sideLayout)) {
+        layout[nodeId] = { x: pos.x, y: pos.y + shiftY };
+      }
+    }
+  }
+
+  /**
+   * Height a subtree occupies in a horizontal tree layout.
+   * Results are cached per node in `heights`.
+   */
+  private measureSubtreeHeight(
+    nodes: Record<string, MindMapNode>,
+    sizes: Record<string, Size>,
+    nodeId: string,
+    heights: Record<string, number>
+  ): number {
+    const node = nodes[nodeId];
+    if (!node) return 0;
+
+    const ownHeight = this.getNodeSize(node, sizes).height + LAYOUT_CONSTANTS.SPACING_Y;
+    const childrenHeight = this.getChildren(nodes, node).reduce(
+      (sum, child) => sum + this.measureSubtreeHeight(nodes, sizes, child.id, heights),
+      0
+    );
+
+    heights[nodeId] = Math.max(ownHeight, childrenHeight);
+    return heights[nodeId];
+  }
+
+  /**
+   * Width a subtree occupies in a top-down layout.
+   * Results are cached per node in `widths`.
+   */
+  private measureSubtreeWidth(
+    nodes: Record<string, MindMapNode>,
+    sizes: Record<string, Size>,
+    nodeId: string,
+    widths: Record<string, number>
+  ): number {
+    const node = nodes[nodeId];
+    if (!node) return 0;
+
+    const ownWidth = this.getNodeSize(node, sizes).width + LAYOUT_CONSTANTS.VERTICAL_SPACING_X;
+    const childrenWidth = this.getChildren(nodes, node).reduce(
+      (sum, child) => sum + this.measureSubtreeWidth(nodes, sizes, child.id, widths),
+      0
+    );
+
+    widths[nodeId] = Math.max(ownWidth, childrenWidth);
+    return widths[nodeId];
+  }
+
+  /**
+   * Midpoint between the centers of the first and last child along one axis
+   */
+  private getChildrenCenter(
+    nodes: Record<string, MindMapNode>,
+    sizes: Record<string, Size>,
+    children: MindMapNode[],
+    layout: ComputedLayout,
+    axis: 'x' | 'y'
+  ): number {
+    const first = children[0];
+    const last = children[children.length - 1];
+    const center = (child: MindMapNode) => {
+      const size = this.getNodeSize(child, sizes);
+      return layout[child.id][axis] + (axis === 'x' ? size.width : size.height) / 2;
+    };
+
+    return (center(first) + center(last)) / 2;
+  }
+
+  /**
+   * Children that take part in the layout (none when the node is collapsed)
+   */
+  private getChildren(nodes: Record<string, MindMapNode>, node: MindMapNode): MindMapNode[] {
+    if (node.isExpanded === false) return [];
+
+    return node.childrenIds
+      .map((id) => nodes[id])
+      .filter((n): n is MindMapNode => n !== undefined);
+  }
+
+  /**
+   * Radial layout: root at the center, each depth on its own ring.
+   * Every subtree gets an angular wedge proportional to its leaf count,
+   * so dense branches get more room than sparse ones.
+   */
+  private layoutRadial(
+    nodes: Record<string, MindMapNode>,
+    sizes: Record<string, Size>,
+    rootId: string,
+    layout: ComputedLayout
+  ): void {
+    const leafCounts: Record<string, number> = {};
+    this.countLeaves(nodes, rootId, leafCounts);
+    const maxDepth = this.getMaxDepth(nodes, rootId);
+
+    // Grow the rings when the outer ring would be too crowded for its leaves
+    const ringSpacing =
+      maxDepth > 0
+        ? Math.max(
+            LAYOUT_CONSTANTS.RADIAL_SPACING,
+            (leafCounts[rootId] * LAYOUT_CONSTANTS.RADIAL_MIN_ARC) / (2 * Math.PI * maxDepth)
+          )
+        : LAYOUT_CONSTANTS.RADIAL_SPACING;
+
+    layout[rootId] = this.polarToPosition(0, 0, this.getNodeSize(nodes[rootId], sizes));
+
+    // Start so that the first branch's wedge is centered on the right side
+    const firstChild = this.getChildren(nodes, nodes[rootId])[0];
+    const firstWedge = firstChild
+      ? (2 * Math.PI * leafCounts[firstChild.id]) / leafCounts[rootId]
+      : 0;
+
+    this.layoutRadialChildren(
+      nodes,
+      sizes,
+      rootId,
+      1,
+      -firstWedge / 2,
+      2 * Math.PI,
+      ringSpacing,
+      leafCounts,
+      layout
+    );
+  }
+
+  /**
+   * Distribute a node's children over its wedge [startAngle, startAngle + span).
+   */
+  private layoutRadialChildren(
+    nodes: Record<string, MindMapNode>,
+    sizes: Record<string, Size>,
+    nodeId: string,
+    depth: number,
+    startAngle: number,
+    span: number,
+    ringSpacing: number,
+    leafCounts: Record<string, number>,
+    layout: ComputedLayout
+  ): void {
+    const node = nodes[nodeId];
+    if (!node) return;
+
+    const totalLeaves = leafCounts[nodeId] || 1;
+    let angle = startAngle;
+
+    for (const child of this.getChildren(nodes, node)) {
+      const wedge = (span * leafCounts[child.id]) / totalLeaves;
+      layout[child.id] = this.polarToPosition(
+        depth * ringSpacing,
+        angle + wedge / 2,
+        this.getNodeSize(child, sizes)
+      );
+      this.layoutRadialChildren(
+        nodes,
+        sizes,
+        child.id,
+        depth + 1,
+        angle,
+        wedge,
+        ringSpacing,
+        leafCounts,
+        layout
+      );
+      angle += wedge;
+    }
+  }
+
+  /**
+   * Count leaves per subtree (a leaf counts as one).
+   */
+  private countLeaves(
+    nodes: Record<string, MindMapNode>,
+    nodeId: string,
+    result: Record<string, number>
+  ): number {
+    const node = nodes[nodeId];
+    if (!node) return 0;
+
+    const children = this.getChildren(nodes, node);
+    const count =
+      children.length === 0
+        ? 1
+        : children.reduce((sum, child) => sum + this.countLeaves(nodes, child.id, result), 0);
+
+    result[nodeId] = count;
+    return count;
+  }
+
+  private getMaxDepth(nodes: Record<string, MindMapNode>, nodeId: string): number {
+    const node = nodes[nodeId];
+    if (!node) return 0;
+
+    let maxChildDepth = -1;
+    for (const child of this.getChildren(nodes, node)) {
+      maxChildDepth = Math.max(maxChildDepth, this.getMaxDepth(nodes, child.id));
+    }
+    return maxChildDepth + 1;
+  }
+
+  /**
+   * Convert a point on a ring to the node's top-left position
+   */
+  private polarToPosition(radius: number, angle: number, size: Size): Position {
+    return {
+      x: radius * Math.cos(angle) - size.width / 2,
+      y: radius * Math.sin(angle) - size.height / 2,
+    };
   }
 
   /**
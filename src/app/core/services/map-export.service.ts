@@ -0,0 +1,306 @@
+import { Injectable } from '@angular/core';
+import { MindMap, MindMapNode, NodeStyle, Position } from '../models/mind-map.model';
+
+export interface MarkdownExportOptions {
+  // Tree levels written as headings (root = level 1); deeper levels become a nested list.
+  // 0 writes the whole map as a nested list.
+  headingDepth: number;
+}
+
+// FreeMind built-in icons and the Material icons used for them (`NodeStyle.icon`)
+export const FREEMIND_ICONS: Record<string, string> = {
+  idea: 'lightbulb',
+  help: 'help',
+  yes: 'priority_high',
+  messagebox_warning: 'warning',
+  'stop-sign': 'block',
+  button_ok: 'check_circle',
+  button_cancel: 'cancel',
+  'full-1': 'looks_one',
+  'full-2': 'looks_two',
+  'full-3': 'looks_3',
+  'full-4': 'looks_4',
+  'full-5': 'looks_5',
+  'full-6': 'looks_6',
+  info: 'info',
+  attach: 'attach_file',
+  pencil: 'edit',
+  list: 'list',
+  home: 'home',
+  clock: 'schedule',
+  calendar: 'event',
+  flag: 'flag',
+  star: 'star',
+  bookmark: 'bookmark',
+  launch: 'rocket_launch',
+  password: 'key',
+  Mail: 'mail',
+  desktop_new: 'computer',
+  go: 'play_circle',
+  stop: 'stop_circle',
+  prepare: 'pending',
+  forward: 'arrow_forward',
+  back: 'arrow_back',
+  up: 'arrow_upward',
+  down: 'arrow_downward',
+  ksmiletris: 'sentiment_satisfied',
+  smily_bad: 'sentiment_dissatisfied',
+};
+
+// Mermaid mindmap shape delimiters for each node shape
+export const MERMAID_SHAPES: Record<NonNullable<NodeStyle['shape']>, [string, string]> = {
+  rounded: ['(', ')'],
+  square: ['[', ']'],
+  circle: ['((', '))'],
+};
+
+/**
+ * Turns the current map into downloadable files in other formats
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class MapExportService {
+  /**
+   * Markdown outline following `childrenIds` order, with task checkboxes and attachment links
+   */
+  toMarkdown(
+    map: MindMap,
+    nodes: Record<string, MindMapNode>,
+    options: MarkdownExportOptions = { headingDepth: 0 }
+  ): string {
+    const lines: string[] = [];
+
+    const visit = (nodeId: string, level: number) => {
+      const node = nodes[nodeId];
+      if (!node) return;
+
+      const content = this.toMarkdownLine(node);
+      if (level <= options.headingDepth) {
+        // Blank lines around headings keep them apart from lists
+        if (lines.length > 0 && lines[lines.length - 1] !== '') lines.push('');
+        lines.push(`${'#'.repeat(Math.min(level, 6))} ${content}`, '');
+      } else {
+        const listLevel = level - options.headingDepth - 1;
+        lines.push(`${'  '.repeat(listLevel)}- ${content}`);
+      }
+
+      node.childrenIds.forEach((childId) => visit(childId, level + 1));
+    };
+
+    visit(map.rootNodeId, 1);
+    return `${lines.join('\n').trim()}\n`;
+  }
+
+  /**
+   * FreeMind/Freeplane XML (.mm). Colors, folding, links, icons and the side of
+   * first-level branches (`POSITION`) are kept; the side comes from `MindMapNode.side`
+   * or, when unset, from the node's position relative to the root.
+   */
+  toFreeMind(
+    map: MindMap,
+    nodes: Record<string, MindMapNode>,
+    positions: Record<string, Position> = {}
+  ): string {
+    const rootPosition = positions[map.rootNodeId];
+    const lines: string[] = ['<map version="1.0.1">'];
+
+    const visit = (nodeId: string, depth: number) => {
+      const node = nodes[nodeId];
+      if (!node) return;
+
+      const indent = '  '.repeat(depth + 1);
+      const attributes: [string, string][] = [
+        ['TEXT', node.text],
+        ['ID', node.id],
+        ['CREATED', String(node.createdAt.getTime())],
+        ['MODIFIED', String(node.updatedAt.getTime())],
+      ];
+      if (node.style?.color) {
+        attributes.push(['BACKGROUND_COLOR', node.style.color]);
+      }
+      if (node.isExpanded === false && node.childrenIds.length > 0) {
+        attributes.push(['FOLDED', 'true']);
+      }
+      // FreeMind has a single link per node
+      const link = node.attachments?.find((a) => a.type === 'link') ?? node.attachments?.[0];
+      if (link) {
+        attributes.push(['LINK', link.url]);
+      }
+      if (depth === 1) {
+        const position = positions[node.id];
+        const isLeft = position && rootPosition && position.x < rootPosition.x;
+        attributes.push(['POSITION', node.side ?? (isLeft ? 'left' : 'right')]);
+      }
+
+      const inner: string[] = [];
+      if (node.style?.connectionColor) {
+        inner.push(`${indent}  <edge COLOR="${this.escapeXml(node.style.connectionColor)}"/>`);
+      }
+      const icon = Object.keys(FREEMIND_ICONS).find(
+        (key) => FREEMIND_ICONS[key] === node.style?.icon
+      );
+      if (icon) {
+        inner.push(`${indent}  <icon BUILTIN="${icon}"/>`);
+      }
+
+      const attributeText = attributes
+        .map(([name, value]) => `${name}="${this.escapeXml(value)}"`)
+        .join(' ');
+      if (inner.length === 0 && node.childrenIds.length === 0) {
+        lines.push(`${indent}<node ${attributeText}/>`);
+        return;
+      }
+
+      lines.push(`${indent}<node ${attributeText}>`, ...inner);
+      node.childrenIds.forEach((childId) => visit(childId, depth + 1));
+      lines.push(`${indent}</node>`);
+    };
+
+    visit(map.rootNodeId, 0);
+    lines.push('</map>');
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * OPML 2.0 outline with the root as the single top-level outline. Notes go to `_note`,
+   * the first attachment to `type="link"` + `url`, and tasks to `_status` (checked/unchecked).
+   */
+  toOpml(map: MindMap, nodes: Record<string, MindMapNode>): string {
+    const lines: string[] = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<opml version="2.0">',
+      '  <head>',
+      `    <title>${this.escapeXml(map.name)}</title>`,
+      `    <dateCreated>${map.createdAt.toUTCString()}</dateCreated>`,
+      `    <dateModified>${map.updatedAt.toUTCString()}</dateModified>`,
+      '  </head>',
+      '  <body>',
+    ];
+
+    const visit = (nodeId: string, depth: number) => {
+      const node = nodes[nodeId];
+      if (!node) return;
+
+      const indent = '  '.repeat(depth + 2);
+      const attributes: [string, string][] = [['text', node.text]];
+      if (node.note) {
+        attributes.push(['_note', node.note]);
+      }
+      const link = node.attachments?.[0];
+      if (link) {
+        attributes.push(['type', 'link'], ['url', link.url]);
+      }
+      if (node.task) {
+        attributes.push(['_status', node.task.isComplete ? 'checked' : 'unchecked']);
+      }
+
+      const attributeText = attributes
+        .map(([name, value]) => `${name}="${this.escapeXml(value)}"`)
+        .join(' ');
+      if (node.childrenIds.length === 0) {
+        lines.push(`${indent}<outline ${attributeText}/>`);
+        return;
+      }
+
+      lines.push(`${indent}<outline ${attributeText}>`);
+      node.childrenIds.forEach((childId) => visit(childId, depth + 1));
+      lines.push(`${indent}</outline>`);
+    };
+
+    visit(map.rootNodeId, 0);
+    lines.push('  </body>', '</opml>');
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * Mermaid `mindmap` diagram, indented two spaces per level. Shapes follow
+   * `NodeStyle.shape` (the default node is a rounded rectangle, as on the canvas).
+   */
+  toMermaid(map: MindMap, nodes: Record<string, MindMapNode>): string {
+    const lines: string[] = ['mindmap'];
+    let count = 0;
+
+    const visit = (nodeId: string, depth: number) => {
+      const node = nodes[nodeId];
+      if (!node) return;
+
+      const [open, close] = MERMAID_SHAPES[node.style?.shape ?? 'rounded'];
+      // Mermaid rejects empty labels, so blank nodes get a quoted space
+      const label = node.text.trim() ? `${open}${this.toMermaidText(node.text)}${close}` : '[" "]';
+      lines.push(`${'  '.repeat(depth)}n${count++}${label}`);
+      node.childrenIds.forEach((childId) => visit(childId, depth + 1));
+    };
+
+    visit(map.rootNodeId, 1);
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * Save text or binary content as a file through the browser
+   */
+  downloadFile(content: string | Blob, fileName: string, mimeType: string): void {
+    const blob = new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * File name for an exported map (spaces replaced by underscores)
+   */
+  getFileName(map: MindMap, extension: string): string {
+    return `${map.name.replace(/\s+/g, '_')}.${extension}`;
+  }
+
+  /**
+   * Escape text for XML attributes and content (line breaks kept as character references)
+   */
+  escapeXml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/\n/g, '&#10;');
+  }
+
+  /**
+   * Node label for Mermaid: quoted when it contains characters that delimit shapes
+   */
+  private toMermaidText(text: string): string {
+    const label = text.replace(/\n/g, '<br/>');
+    // Leading "::" would read as an icon or class line, backticks as a Markdown string
+    const needsQuotes = /[()[\]{}"`]/.test(label) || label.trimStart().startsWith('::');
+    return needsQuotes ? `"${label.replace(/"/g, '#quot;').replace(/`/g, '#96;')}"` : label;
+  }
+
+  private toMarkdownLine(node: MindMapNode): string {
+    const checkbox = node.task ? `[${node.task.isComplete ? 'x' : ' '}] ` : '';
+    // Markdown lines can't hold line breaks
+    const text = this.escapeMarkdown(node.text.replace(/\s*\n\s*/g, ' '));
+    const links = (node.attachments ?? []).map((attachment) => {
+      const label = (attachment.name || attachment.url).replace(/[\\[\]]/g, '\\$&');
+      return attachment.type === 'image'
+        ? `![${label}](${attachment.url})`
+        : `[${label}](${attachment.url})`;
+    });
+
+    return [`${checkbox}${text}`, ...links].join(' ');
+  }
+
+  /**
+   * Backslash-escape what Markdown would read as syntax (emphasis, links, checkboxes,
+   * heading and list markers) so the text stays plain when rendered or imported again
+   */
+  private escapeMarkdown(text: string): string {
+    return text
+      .replace(/[\\`*_[\]]/g, '\\$&')
+      .replace(/^(\s*)([#>+-])/, '$1\\$2')
+      .replace(/^(\s*\d+)([.)])/, '$1\\$2')
+      .replace(/(\s)(#+\s*)$/, '$1\\$2');
+  }
+}
@@ -0,0 +1,447 @@
+import { Injectable, inject } from '@angular/core';
+import { ConnectionCurve, LayoutService, NodeBox } from './layout.service';
+import { MapExportService } from './map-export.service';
+import { MindMapStore } from '../../store/mind-map.store';
+import { MindMapNode, Position } from '../models/mind-map.model';
+
+export interface PngExportOptions {
+  // Output pixels per canvas pixel (2 = double resolution)
+  scale: number;
+  // Leave the background transparent instead of filling it with the theme's canvas color
+  transparent: boolean;
+}
+
+// Theme colors resolved from the app's CSS variables, for drawing outside the DOM
+export interface MapThemeColors {
+  background: string;
+  nodeBackground: string;
+  nodeBorder: string;
+  connection: string;
+  text: string;
+}
+
+interface SceneConnection {
+  curve: ConnectionCurve;
+  // Custom line color ('' = theme connection color)
+  color: string;
+  dashed: boolean;
+}
+
+// Laid out content of a node (text positions are left edge / vertical center)
+interface NodeContent {
+  radius: number;
+  font: string;
+  fontSize: number;
+  fontWeight: number;
+  lines: { text: string; x: number; y: number }[];
+  icon?: { text: string; x: number; y: number };
+  task?: { text: string; x: number; y: number; color: string };
+}
+
+// Visible nodes and connections of the open map, in canvas coordinates
+interface MapScene {
+  nodes: { node: MindMapNode; box: NodeBox }[];
+  connections: SceneConnection[];
+  bounds: NodeBox;
+}
+
+// Empty space around the map in exported images
+const IMAGE_PADDING = 40;
+
+// Largest canvas side browsers reliably allocate
+const MAX_CANVAS_SIZE = 16384;
+
+// Node box metrics (match the node component's styles)
+const NODE_BORDER = 2;
+const NODE_PADDING_X = 16;
+const NODE_LINE_HEIGHT = 20;
+const NODE_GAP = 8;
+const NODE_ICON_SIZE = 18;
+const FONT_FAMILY = "Roboto, 'Helvetica Neue', sans-serif";
+const TASK_FONT = `14px ${FONT_FAMILY}`;
+const TASK_COMPLETE_COLOR = '#4caf50';
+const TASK_OPEN_COLOR = '#888888';
+// Distance from a text line's vertical center down to its baseline, per pixel of font size
+const BASELINE_SHIFT = 0.35;
+
+/**
+ * Renders the whole open map (every visible node, not just the viewport) as an image
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class MapImageService {
+  private store = inject(MindMapStore);
+  private layoutService = inject(LayoutService);
+  private mapExport = inject(MapExportService);
+
+  /**
+   * PNG of the map with node colors, connection colors and dashes, icons and task
+   * indicators. The scale is lowered when the image would exceed the canvas size limit.
+   */
+  async toPng(options: PngExportOptions): Promise<Blob> {
+    const bounds = this.getMapBounds();
+    const scale = Math.min(
+      options.scale,
+      MAX_CANVAS_SIZE / bounds.width,
+      MAX_CANVAS_SIZE / bounds.height
+    );
+
+    // Icons are drawn with the icon font, so it has to be loaded first
+    await document.fonts.ready;
+
+    const canvas = this.renderRegion(bounds, scale, this.getThemeColors(), options.transparent);
+
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))));
+    });
+  }
+
+  /**
+   * Area covered by the visible nodes (canvas coordinates), with padding
+   */
+  getMapBounds(): NodeBox {
+    return this.getScene().bounds;
+  }
+
+  /**
+   * Draw the part of the map inside `region` (canvas coordinates) onto a new canvas.
+   * Fonts should be loaded beforehand.
+   */
+  renderRegion(
+    region: NodeBox,
+    scale: number,
+    theme: MapThemeColors,
+    transparent = false
+  ): HTMLCanvasElement {
+    const scene = this.getScene();
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(region.width * scale);
+    canvas.height = Math.ceil(region.height * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Canvas 2D context is not available');
+    }
+
+    ctx.scale(scale, scale);
+    ctx.translate(-region.x, -region.y);
+    if (!transparent) {
+      ctx.fillStyle = theme.background;
+      ctx.fillRect(region.x, region.y, region.width, region.height);
+    }
+
+    scene.connections.forEach((connection) => this.drawConnection(ctx, connection, theme));
+    scene.nodes.forEach(({ node, box }) => this.drawNode(ctx, node, box, theme));
+    return canvas;
+  }
+
+  /**
+   * Standalone SVG of the map at full size: the canvas's cubic connection curves, node
+   * shapes and wrapped text, with theme colors written out instead of CSS variables.
+   * Node icons are left out since they depend on the app's icon font.
+   */
+  async toSvg(): Promise<string> {
+    const scene = this.getScene();
+    const theme = this.getThemeColors();
+    const { bounds } = scene;
+    const n = (value: number) => Math.round(value * 100) / 100;
+    const escape = (value: string) => this.mapExport.escapeXml(value);
+
+    // Text is wrapped with the same measurements as on the canvas
+    await document.fonts.ready;
+    const ctx = document.createElement('canvas').getContext('2d');
+    if (!ctx) {
+      throw new Error('Canvas 2D context is not available');
+    }
+
+    const lines: string[] = [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${n(bounds.width)}" ` +
+        `height="${n(bounds.height)}" ` +
+        `viewBox="${n(bounds.x)} ${n(bounds.y)} ${n(bounds.width)} ${n(bounds.height)}">`,
+      `  <title>${escape(this.store.currentMap()?.name ?? '')}</title>`,
+      `  <rect x="${n(bounds.x)}" y="${n(bounds.y)}" width="${n(bounds.width)}" ` +
+        `height="${n(bounds.height)}" fill="${theme.background}"/>`,
+      '  <g fill="none" stroke-width="2" stroke-linecap="round">',
+    ];
+
+    scene.connections.forEach(({ curve, color, dashed }) => {
+      const { start, control1, control2, end } = curve;
+      const path =
+        `M ${n(start.x)} ${n(start.y)} C ${n(control1.x)} ${n(control1.y)}, ` +
+        `${n(control2.x)} ${n(control2.y)}, ${n(end.x)} ${n(end.y)}`;
+      const dash = dashed ? ' stroke-dasharray="8 4"' : '';
+      lines.push(`    <path d="${path}" stroke="${escape(color || theme.connection)}"${dash}/>`);
+    });
+    lines.push('  </g>');
+
+    scene.connections.forEach(({ curve, color }) => {
+      const points = this.getArrowhead(curve)
+        .map((point) => `${n(point.x)},${n(point.y)}`)
+        .join(' ');
+      lines.push(`  <polygon points="${points}" fill="${escape(color || theme.connection)}"/>`);
+    });
+
+    scene.nodes.forEach(({ node, box }) => {
+      const content = this.layoutNodeContent(ctx, node, box, false);
+      const inset = NODE_BORDER / 2;
+      lines.push(
+        '  <g>',
+        `    <rect x="${n(box.x + inset)}" y="${n(box.y + inset)}" ` +
+          `width="${n(box.width - NODE_BORDER)}" height="${n(box.height - NODE_BORDER)}" ` +
+          `rx="${n(content.radius)}" fill="${escape(node.style?.color || theme.nodeBackground)}" ` +
+          `stroke="${theme.nodeBorder}" stroke-width="${NODE_BORDER}"/>`
+      );
+
+      const baseline = content.fontSize * BASELINE_SHIFT;
+      const tspans = content.lines
+        .map(
+          (line) =>
+            `<tspan x="${n(line.x)}" y="${n(line.y + baseline)}">${escape(line.text)}</tspan>`
+        )
+        .join('');
+      lines.push(
+        `    <text font-family="${FONT_FAMILY}" font-size="${content.fontSize}" ` +
+          `font-weight="${content.fontWeight}" fill="${theme.text}">${tspans}</text>`
+      );
+
+      if (content.task) {
+        const { text, x, y, color } = content.task;
+        lines.push(
+          `    <text x="${n(x)}" y="${n(y + 14 * BASELINE_SHIFT)}" font-family="${FONT_FAMILY}" ` +
+            `font-size="14" fill="${color}">${text}</text>`
+        );
+      }
+      lines.push('  </g>');
+    });
+
+    lines.push('</svg>');
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * Current values of the theme's CSS variables (light or dark)
+   */
+  getThemeColors(): MapThemeColors {
+    const root = getComputedStyle(document.documentElement);
+    const read = (name: string, fallback: string) =>
+      root.getPropertyValue(name).trim() || fallback;
+
+    return {
+      background: read('--canvas-bg', '#f5f5f5'),
+      nodeBackground: read('--node-bg', '#ffffff'),
+      nodeBorder: read('--node-border', '#e0e0e0'),
+      connection: read('--connection-color', '#9575cd'),
+      text: getComputedStyle(document.body).color || '#000000',
+    };
+  }
+
+  /**
+   * Split text into lines that fit the width, breaking long words like `word-break: break-word`
+   */
+  wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+    const lines: string[] = [];
+
+    text.split('\n').forEach((paragraph) => {
+      let line = '';
+      paragraph.split(/\s+/).forEach((word) => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (!line || ctx.measureText(candidate).width <= maxWidth) {
+          line = candidate;
+        } else {
+          lines.push(line);
+          line = word;
+        }
+
+        // A single word wider than the line is broken up by characters
+        while (ctx.measureText(line).width > maxWidth && line.length > 1) {
+          let cut = line.length - 1;
+          while (cut > 1 && ctx.measureText(line.slice(0, cut)).width > maxWidth) cut--;
+          lines.push(line.slice(0, cut));
+          line = line.slice(cut);
+        }
+      });
+      lines.push(line);
+    });
+
+    return lines;
+  }
+
+  private getScene(): MapScene {
+    const nodes = this.store.nodes();
+    const positions = this.store.nodePositions();
+    const sizes = this.store.nodeSizes();
+    const axis = this.layoutService.getConnectionAxis(this.store.layoutStyle());
+
+    const boxes: Record<string, NodeBox> = {};
+    const scene: MapScene = {
+      nodes: [],
+      connections: [],
+      bounds: { x: 0, y: 0, width: 0, height: 0 },
+    };
+
+    this.store.visibleNodes().forEach((node) => {
+      const position = positions[node.id];
+      if (!position) return;
+      boxes[node.id] = { ...position, ...this.layoutService.getNodeSize(node, sizes) };
+      scene.nodes.push({ node, box: boxes[node.id] });
+    });
+
+    scene.nodes.forEach(({ node, box }) => {
+      const parentBox = node.parentId ? boxes[node.parentId] : undefined;
+      if (!parentBox) return;
+
+      scene.connections.push({
+        curve: this.layoutService.getConnectionCurve(parentBox, box, axis),
+        color: node.style?.connectionColor || node.style?.color || '',
+        dashed: node.style?.connectionDashed ?? false,
+      });
+    });
+
+    const boxList = Object.values(boxes);
+    const minX = Math.min(...boxList.map((box) => box.x), 0) - IMAGE_PADDING;
+    const minY = Math.min(...boxList.map((box) => box.y), 0) - IMAGE_PADDING;
+    const maxX = Math.max(...boxList.map((box) => box.x + box.width), 0) + IMAGE_PADDING;
+    const maxY = Math.max(...boxList.map((box) => box.y + box.height), 0) + IMAGE_PADDING;
+    scene.bounds = { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+
+    return scene;
+  }
+
+  private drawConnection(
+    ctx: CanvasRenderingContext2D,
+    connection: SceneConnection,
+    theme: MapThemeColors
+  ): void {
+    const { start, control1, control2, end } = connection.curve;
+    const color = connection.color || theme.connection;
+
+    ctx.save();
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 2;
+    ctx.lineCap = 'round';
+    ctx.setLineDash(connection.dashed ? [8, 4] : []);
+    ctx.beginPath();
+    ctx.moveTo(start.x, start.y);
+    ctx.bezierCurveTo(control1.x, control1.y, control2.x, control2.y, end.x, end.y);
+    ctx.stroke();
+
+    ctx.fillStyle = color;
+    ctx.beginPath();
+    this.getArrowhead(connection.curve).forEach((point) => ctx.lineTo(point.x, point.y));
+    ctx.closePath();
+    ctx.fill();
+    ctx.restore();
+  }
+
+  private drawNode(
+    ctx: CanvasRenderingContext2D,
+    node: MindMapNode,
+    box: NodeBox,
+    theme: MapThemeColors
+  ): void {
+    const content = this.layoutNodeContent(ctx, node, box, true);
+
+    ctx.save();
+    ctx.fillStyle = node.style?.color || theme.nodeBackground;
+    ctx.strokeStyle = theme.nodeBorder;
+    ctx.lineWidth = NODE_BORDER;
+    ctx.beginPath();
+    ctx.roundRect(
+      box.x + NODE_BORDER / 2,
+      box.y + NODE_BORDER / 2,
+      box.width - NODE_BORDER,
+      box.height - NODE_BORDER,
+      content.radius
+    );
+    ctx.fill();
+    ctx.stroke();
+
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = theme.text;
+    if (content.icon) {
+      ctx.font = `${NODE_ICON_SIZE}px 'Material Icons'`;
+      ctx.fillText(content.icon.text, content.icon.x, content.icon.y);
+    }
+
+    ctx.font = content.font;
+    content.lines.forEach((line) => ctx.fillText(line.text, line.x, line.y));
+
+    if (content.task) {
+      ctx.font = TASK_FONT;
+      ctx.fillStyle = content.task.color;
+      ctx.fillText(content.task.text, content.task.x, content.task.y);
+    }
+    ctx.restore();
+  }
+
+  /**
+   * Placement of a node's content row ([icon] text [task indicator], vertically centered),
+   * with the text wrapped to the node's width
+   */
+  private layoutNodeContent(
+    ctx: CanvasRenderingContext2D,
+    node: MindMapNode,
+    box: NodeBox,
+    withIcon: boolean
+  ): NodeContent {
+    const isRoot = !node.parentId;
+    const shape = node.style?.shape;
+    const radius = shape === 'circle' ? box.height / 2 : shape === 'square' ? 2 : isRoot ? 12 : 8;
+    const paddingX = shape === 'circle' ? 20 : NODE_PADDING_X;
+
+    const centerY = box.y + box.height / 2;
+    let left = box.x + NODE_BORDER + paddingX;
+    let right = box.x + box.width - NODE_BORDER - paddingX;
+    const content: NodeContent = {
+      // Radius of the border's center line
+      radius: Math.max(radius - NODE_BORDER / 2, 0),
+      font: isRoot ? `600 16px ${FONT_FAMILY}` : `14px ${FONT_FAMILY}`,
+      fontSize: isRoot ? 16 : 14,
+      fontWeight: isRoot ? 600 : 400,
+      lines: [],
+    };
+
+    if (withIcon && node.style?.icon) {
+      content.icon = { text: node.style.icon, x: left, y: centerY };
+      left += NODE_ICON_SIZE + NODE_GAP;
+    }
+
+    if (node.task?.isComplete !== undefined) {
+      const text = node.task.isComplete ? '✓' : '○';
+      ctx.font = TASK_FONT;
+      const width = ctx.measureText(text).width;
+      const color = node.task.isComplete ? TASK_COMPLETE_COLOR : TASK_OPEN_COLOR;
+      content.task = { text, x: right - width, y: centerY, color };
+      right -= width + NODE_GAP;
+    }
+
+    ctx.font = content.font;
+    const lines = this.wrapText(ctx, node.text, right - left);
+    const firstLineY = centerY - ((lines.length - 1) * NODE_LINE_HEIGHT) / 2;
+    content.lines = lines.map((text, index) => ({
+      text,
+      x: left,
+      y: firstLineY + index * NODE_LINE_HEIGHT,
+    }));
+
+    return content;
+  }
+
+  /**
+   * Arrowhead at the end of a connection, along the curve's end tangent
+   * (same size as the canvas marker on a 2px line)
+   */
+  private getArrowhead(curve: ConnectionCurve): Position[] {
+    const { control2, end } = curve;
+    const length = Math.hypot(end.x - control2.x, end.y - control2.y) || 1;
+    const dx = (end.x - control2.x) / length;
+    const dy = (end.y - control2.y) / length;
+
+    return [
+      { x: end.x + dx * 2, y: end.y + dy * 2 },
+      { x: end.x - dx * 18 - dy * 7, y: end.y - dy * 18 + dx * 7 },
+      { x: end.x - dx * 18 + dy * 7, y: end.y - dy * 18 - dx * 7 },
+    ];
+  }
+}
@@ -0,0 +1,585 @@
+import { Injectable, inject } from '@angular/core';
+import { MindMapService } from './mind-map.service';
+import { FREEMIND_ICONS } from './map-export.service';
+import {
+  LayoutStyle,
+  MindMap,
+  MindMapNode,
+  MindMapSettings,
+  NodeAttachment,
+  NodeStyle,
+  NodeTask,
+} from '../models/mind-map.model';
+
+// File types the import accepts (file input `accept` list)
+export const IMPORT_FILE_TYPES = '.json,.md,.markdown,.mm,.opml,.mmd,.mermaid';
+
+const LAYOUT_STYLES: LayoutStyle[] = ['horizontal', 'balanced', 'vertical', 'radial'];
+
+// Markdown link or image: [label](url) / ![label](url), not an escaped \[bracket\]
+const MARKDOWN_LINK = /(?<!\\)(!?)\[((?:\\.|[^\]\\])*)\]\(([^)\s]+)\)/;
+
+// Backslash escape of an ASCII punctuation character
+const MARKDOWN_ESCAPE = /\\([!-/:-@[-`{-~])/g;
+
+// Mermaid mindmap shape delimiters, longest first; shapes the canvas lacks use the default
+const MERMAID_NODE_SHAPES: { open: string; close: string; shape?: NodeStyle['shape'] }[] = [
+  { open: '((', close: '))', shape: 'circle' },
+  { open: '))', close: '((' },
+  { open: '{{', close: '}}' },
+  { open: '(', close: ')' },
+  { open: ')', close: '(' },
+  { open: '[', close: ']', shape: 'square' },
+];
+
+// Tree read from an outline format, before it becomes map nodes
+interface OutlineItem {
+  text: string;
+  note?: string;
+  task?: NodeTask;
+  attachments?: NodeAttachment[];
+  style?: NodeStyle;
+  collapsed?: boolean;
+  side?: 'left' | 'right';
+  children: OutlineItem[];
+}
+
+/**
+ * Creates new maps from exported files. Imported maps always get fresh IDs
+ * and belong to the importing user.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class MapImportService {
+  private mindMapService = inject(MindMapService);
+
+  /**
+   * Import a file as a new map, picking the format from the file extension
+   */
+  async importFile(file: File, userId: string): Promise<MindMap> {
+    const text = await file.text();
+    const name = file.name.replace(/\.[^.]+$/, '');
+
+    switch (file.name.split('.').pop()?.toLowerCase()) {
+      case 'json':
+        return await this.importJson(text, userId);
+      case 'md':
+      case 'markdown':
+        return await this.importMarkdown(text, userId, name);
+      case 'mm':
+        return await this.importFreeMind(text, userId, name);
+      case 'opml':
+        return await this.importOpml(text, userId, name);
+      case 'mmd':
+      case 'mermaid':
+        return await this.importMermaid(text, userId, name);
+      default:
+        throw new Error(`Unsupported file type (supported: ${IMPORT_FILE_TYPES}).`);
+    }
+  }
+
+  /**
+   * Import a file written by "Export as JSON" (`{ map, nodes }`) as a new map.
+   * Throws an Error with a user-facing message when the file is not a valid export.
+   */
+  async importJson(json: string, userId: string): Promise<MindMap> {
+    let data: unknown;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      throw new Error('The file is not valid JSON.');
+    }
+
+    if (!this.isRecord(data) || !this.isRecord(data['map']) || !Array.isArray(data['nodes'])) {
+      throw new Error('The file is not a Geller Map export (expected "map" and "nodes").');
+    }
+
+    const map = data['map'];
+    const sourceNodes = new Map<string, Record<string, unknown>>();
+    data['nodes'].forEach((node) => {
+      if (this.isRecord(node) && typeof node['id'] === 'string') {
+        sourceNodes.set(node['id'], node);
+      }
+    });
+
+    const rootId = map['rootNodeId'];
+    if (typeof rootId !== 'string' || !sourceNodes.has(rootId)) {
+      throw new Error("The map's root node is missing from the file.");
+    }
+
+    const nodes = this.collectTree(rootId, sourceNodes);
+    const name =
+      typeof map['name'] === 'string' && map['name'].trim() ? map['name'] : 'Imported map';
+    const settings = this.readSettings(map['settings']);
+
+    return await this.mindMapService.createMapFromNodes(name, userId, nodes, rootId, settings);
+  }
+
+  /**
+   * Import a Markdown outline (headings and nested lists) as a new map.
+   * A single top-level entry becomes the root; otherwise the root is named after the file.
+   */
+  async importMarkdown(markdown: string, userId: string, fallbackName: string): Promise<MindMap> {
+    const items = this.parseMarkdown(markdown);
+    if (items.length === 0) {
+      throw new Error('No headings or list items found in the file.');
+    }
+
+    const root = items.length === 1 ? items[0] : { text: fallbackName, children: items };
+    return await this.saveOutline(root, root.text || fallbackName, userId);
+  }
+
+  /**
+   * Import a FreeMind/Freeplane map (.mm) as a new map. Branches placed on the left
+   * switch the map to the balanced layout so the sides are kept.
+   */
+  async importFreeMind(xml: string, userId: string, fallbackName: string): Promise<MindMap> {
+    const rootElement = this.parseXml(xml);
+    const rootNode = Array.from(rootElement.children).find((child) => child.tagName === 'node');
+    if (rootElement.tagName !== 'map' || !rootNode) {
+      throw new Error('The file is not a FreeMind map (expected <map> with a root <node>).');
+    }
+
+    const root = this.readFreeMindNode(rootNode);
+    const settings: MindMapSettings = { theme: 'system', layoutMode: 'freeform' };
+    if (root.children.some((child) => child.side === 'left')) {
+      settings.layoutStyle = 'balanced';
+    }
+
+    return await this.saveOutline(root, root.text || fallbackName, userId, settings);
+  }
+
+  /**
+   * A FreeMind `<node>` element and its child nodes. Rich text (HTML) content is
+   * reduced to plain text; only the first known icon is kept.
+   */
+  private readFreeMindNode(element: Element): OutlineItem {
+    const children = Array.from(element.children);
+    const richText = children.find(
+      (child) => child.tagName === 'richcontent' && child.getAttribute('TYPE') !== 'NOTE'
+    );
+    const item: OutlineItem = {
+      text: element.getAttribute('TEXT') ?? richText?.textContent?.trim() ?? '',
+      children: children
+        .filter((child) => child.tagName === 'node')
+        .map((child) => this.readFreeMindNode(child)),
+    };
+
+    const style: NodeStyle = {};
+    const color = element.getAttribute('BACKGROUND_COLOR');
+    if (color) style.color = color;
+    const edgeColor = children.find((child) => child.tagName === 'edge')?.getAttribute('COLOR');
+    if (edgeColor) style.connectionColor = edgeColor;
+    const iconKey = children
+      .map((child) => (child.tagName === 'icon' ? child.getAttribute('BUILTIN') : null))
+      .find((key) => !!key && Object.hasOwn(FREEMIND_ICONS, key));
+    if (iconKey) style.icon = FREEMIND_ICONS[iconKey];
+    if (Object.keys(style).length > 0) item.style = style;
+
+    const link = element.getAttribute('LINK');
+    if (link) item.attachments = [{ type: 'link', url: link }];
+    if (element.getAttribute('FOLDED') === 'true') item.collapsed = true;
+
+    const position = element.getAttribute('POSITION');
+    if (position === 'left' || position === 'right') item.side = position;
+
+    return item;
+  }
+
+  /**
+   * Import an OPML outline as a new map. A single top-level outline becomes the root;
+   * otherwise the root is named after the OPML title (or the file).
+   */
+  async importOpml(xml: string, userId: string, fallbackName: string): Promise<MindMap> {
+    const rootElement = this.parseXml(xml);
+    const body = Array.from(rootElement.children).find((child) => child.tagName === 'body');
+    if (rootElement.tagName !== 'opml' || !body) {
+      throw new Error('The file is not an OPML outline (expected <opml> with a <body>).');
+    }
+
+    const items = Array.from(body.children)
+      .filter((child) => child.tagName === 'outline')
+      .map((child) => this.readOpmlOutline(child));
+    if (items.length === 0) {
+      throw new Error('No outlines found in the file.');
+    }
+
+    const title = rootElement.querySelector('head > title')?.textContent?.trim();
+    const name = title || fallbackName;
+    const root = items.length === 1 ? items[0] : { text: name, children: items };
+    return await this.saveOutline(root, root.text || name, userId);
+  }
+
+  /**
+   * An OPML `<outline>` element and its child outlines. Links come from `url`
+   * (or `htmlUrl`/`xmlUrl` for feed lists), completion from `_status` or `_complete`.
+   */
+  private readOpmlOutline(element: Element): OutlineItem {
+    const item: OutlineItem = {
+      text: element.getAttribute('text') ?? element.getAttribute('title') ?? '',
+      children: Array.from(element.children)
+        .filter((child) => child.tagName === 'outline')
+        .map((child) => this.readOpmlOutline(child)),
+    };
+
+    const note = element.getAttribute('_note');
+    if (note) item.note = note;
+
+    const url = ['url', 'htmlUrl', 'xmlUrl']
+      .map((name) => element.getAttribute(name))
+      .find((value) => !!value);
+    if (url) item.attachments = [{ type: 'link', url }];
+
+    const status = element.getAttribute('_status');
+    const complete = element.getAttribute('_complete');
+    if (status === 'checked' || status === 'unchecked') {
+      item.task = { isComplete: status === 'checked' };
+    } else if (complete === 'true' || complete === 'false') {
+      item.task = { isComplete: complete === 'true' };
+    }
+
+    return item;
+  }
+
+  /**
+   * Import a Mermaid `mindmap` diagram (optionally inside a ```mermaid fence) as a new map.
+   * Nodes nest by indentation; icons and classes are skipped.
+   */
+  async importMermaid(source: string, userId: string, fallbackName: string): Promise<MindMap> {
+    const roots: OutlineItem[] = [];
+    const stack: { indent: number; item: OutlineItem }[] = [];
+    let hasHeader = false;
+    let inFrontMatter = false;
+
+    for (const line of source.split(/\r?\n/)) {
+      const content = line.trim();
+      if (content === '---') {
+        inFrontMatter = !inFrontMatter;
+        continue;
+      }
+      if (inFrontMatter || !content || content.startsWith('%%') || content.startsWith('```')) {
+        continue;
+      }
+
+      if (!hasHeader) {
+        if (content !== 'mindmap') {
+          throw new Error('The file is not a Mermaid mindmap (expected "mindmap" first).');
+        }
+        hasHeader = true;
+        continue;
+      }
+      if (content.startsWith('::')) continue;
+
+      const indent = this.getIndentWidth(line.match(/^\s*/)?.[0] ?? '');
+      while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+        stack.pop();
+      }
+      const item = this.parseMermaidNode(content);
+      const parent = stack.at(-1)?.item;
+      (parent ? parent.children : roots).push(item);
+      stack.push({ indent, item });
+    }
+
+    if (roots.length === 0) {
+      throw new Error('No mindmap nodes found in the file.');
+    }
+
+    const root = roots.length === 1 ? roots[0] : { text: fallbackName, children: roots };
+    return await this.saveOutline(root, root.text || fallbackName, userId);
+  }
+
+  /**
+   * A Mermaid mindmap node: `id`, `text`, or `id` + shape-delimited (optionally quoted) text
+   */
+  private parseMermaidNode(content: string): OutlineItem {
+    const item: OutlineItem = { text: content, children: [] };
+    const start = content.search(/[()[\]{]/);
+    const delimited = start >= 0 && !/\s/.test(content.slice(0, start)) ? content.slice(start) : '';
+    const shape = MERMAID_NODE_SHAPES.find(
+      ({ open, close }) =>
+        delimited.length >= open.length + close.length &&
+        delimited.startsWith(open) &&
+        delimited.endsWith(close)
+    );
+
+    if (shape) {
+      item.text = delimited.slice(shape.open.length, -shape.close.length).trim();
+      // Quoted and Markdown strings: "text" / "`text`"
+      const quoted = item.text.match(/^"`?([\s\S]*?)`?"$/);
+      if (quoted) item.text = quoted[1];
+      if (shape.shape) item.style = { shape: shape.shape };
+    }
+
+    item.text = item.text
+      .replace(/#quot;/g, '"')
+      .replace(/#96;/g, '`')
+      .replace(/<br\s*\/?>/gi, '\n');
+    return item;
+  }
+
+  /**
+   * Headings nest by level; list items nest by indentation below the last heading.
+   * Other lines (paragraphs, code blocks, rules) are skipped.
+   */
+  private parseMarkdown(markdown: string): OutlineItem[] {
+    const roots: OutlineItem[] = [];
+    const stack: { depth: number; item: OutlineItem }[] = [];
+    let headingLevel = 0;
+    // Indentation of the open list levels under the current heading
+    let listIndents: number[] = [];
+    let inCodeBlock = false;
+
+    markdown.split(/\r?\n/).forEach((line) => {
+      if (/^\s*(```|~~~)/.test(line)) {
+        inCodeBlock = !inCodeBlock;
+        return;
+      }
+      if (inCodeBlock || /^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) return;
+
+      const heading = line.match(/^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/);
+      const listItem = line.match(/^(\s*)(?:[-*+]|\d+[.)])\s+(.*)$/);
+      let depth: number;
+      let content: string;
+
+      if (heading) {
+        depth = heading[1].length;
+        headingLevel = depth;
+        listIndents = [];
+        content = heading[2];
+      } else if (listItem) {
+        const indent = this.getIndentWidth(listItem[1]);
+        while (listIndents.length > 0 && listIndents[listIndents.length - 1] > indent) {
+          listIndents.pop();
+        }
+        if (listIndents.length === 0 || listIndents[listIndents.length - 1] < indent) {
+          listIndents.push(indent);
+        }
+        depth = headingLevel + listIndents.length;
+        content = listItem[2];
+      } else {
+        return;
+      }
+
+      const item = this.parseMarkdownItem(content);
+      while (stack.length > 0 && stack[stack.length - 1].depth >= depth) {
+        stack.pop();
+      }
+      const parent = stack.at(-1)?.item;
+      (parent ? parent.children : roots).push(item);
+      stack.push({ depth, item });
+    });
+
+    return roots;
+  }
+
+  /**
+   * Text of a heading or list item: a leading checkbox becomes a task, links at the end
+   * become attachments, and links inside the text keep their label (and are attached too)
+   */
+  private parseMarkdownItem(content: string): OutlineItem {
+    const item: OutlineItem = { text: '', children: [] };
+    let text = content.trim();
+
+    const checkbox = text.match(/^\[([ xX])\]\s*/);
+    if (checkbox) {
+      item.task = { isComplete: checkbox[1] !== ' ' };
+      text = text.slice(checkbox[0].length);
+    }
+
+    const attachments: NodeAttachment[] = [];
+    const trailingLink = new RegExp(`\\s*${MARKDOWN_LINK.source}\\s*$`);
+    let match = text.match(trailingLink);
+    while (match && match.index !== undefined) {
+      attachments.unshift(this.toAttachment(match[1], match[2], match[3]));
+      text = text.slice(0, match.index);
+      match = text.match(trailingLink);
+    }
+    text = text.replace(new RegExp(MARKDOWN_LINK.source, 'g'), (_, image, label, url) => {
+      attachments.push(this.toAttachment(image, label, url));
+      return label;
+    });
+
+    item.text =
+      text.trim().replace(MARKDOWN_ESCAPE, '$1') ||
+      attachments[0]?.name ||
+      attachments[0]?.url ||
+      '';
+    if (attachments.length > 0) item.attachments = attachments;
+    return item;
+  }
+
+  private toAttachment(image: string, label: string, url: string): NodeAttachment {
+    const attachment: NodeAttachment = { type: image ? 'image' : 'link', url };
+    const name = label.replace(MARKDOWN_ESCAPE, '$1');
+    if (name && name !== url) attachment.name = name;
+    return attachment;
+  }
+
+  /**
+   * Save an outline tree as a new map
+   */
+  private async saveOutline(
+    root: OutlineItem,
+    name: string,
+    userId: string,
+    settings?: MindMapSettings
+  ): Promise<MindMap> {
+    const nodes: MindMapNode[] = [];
+    const now = new Date();
+
+    const add = (item: OutlineItem, parentId: string | null, order: number): string => {
+      // Temporary ID, replaced when the map is created
+      const id = `item_${nodes.length}`;
+      const node: MindMapNode = {
+        id,
+        userId: '',
+        mapId: '',
+        parentId,
+        text: item.text,
+        isExpanded: !item.collapsed,
+        childrenIds: [],
+        order,
+        createdAt: now,
+        updatedAt: now,
+      };
+      if (item.note) node.note = item.note;
+      if (item.side) node.side = item.side;
+      if (item.task) node.task = item.task;
+      if (item.attachments) node.attachments = item.attachments;
+      if (item.style) node.style = item.style;
+
+      nodes.push(node);
+      node.childrenIds = item.children.map((child, index) => add(child, id, index));
+      return id;
+    };
+
+    const rootId = add(root, null, 0);
+    return await this.mindMapService.createMapFromNodes(name, userId, nodes, rootId, settings);
+  }
+
+  /**
+   * Nodes reachable from the root through `childrenIds`, with `parentId` and `order`
+   * rewritten from that tree. Dangling references and cycles are dropped.
+   */
+  private collectTree(
+    rootId: string,
+    sourceNodes: Map<string, Record<string, unknown>>
+  ): MindMapNode[] {
+    const nodes: MindMapNode[] = [];
+    const visited = new Set<string>();
+
+    const visit = (id: string, parentId: string | null, order: number) => {
+      const source = sourceNodes.get(id);
+      if (!source || visited.has(id)) return;
+      visited.add(id);
+
+      const node = this.readNode(source, parentId, order);
+      nodes.push(node);
+
+      const childIds = Array.isArray(source['childrenIds']) ? source['childrenIds'] : [];
+      childIds
+        .filter((childId): childId is string => typeof childId === 'string')
+        .filter((childId) => sourceNodes.has(childId) && !visited.has(childId))
+        .forEach((childId, index) => {
+          node.childrenIds.push(childId);
+          visit(childId, id, index);
+        });
+    };
+
+    visit(rootId, null, 0);
+    return nodes;
+  }
+
+  private readNode(
+    source: Record<string, unknown>,
+    parentId: string | null,
+    order: number
+  ): MindMapNode {
+    const now = new Date();
+    const node: MindMapNode = {
+      id: source['id'] as string,
+      userId: '',
+      mapId: '',
+      parentId,
+      text: typeof source['text'] === 'string' ? source['text'] : '',
+      isExpanded: source['isExpanded'] !== false,
+      childrenIds: [],
+      order,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    // Optional fields are kept when they have the right shape
+    if (typeof source['note'] === 'string') node.note = source['note'];
+    if (source['side'] === 'left' || source['side'] === 'right') node.side = source['side'];
+    if (this.isRecord(source['style'])) node.style = source['style'] as NodeStyle;
+    if (this.isRecord(source['task'])) node.task = this.readTask(source['task']);
+    if (Array.isArray(source['attachments'])) {
+      node.attachments = source['attachments'].filter(
+        (a) => this.isRecord(a) && typeof a['url'] === 'string'
+      ) as MindMapNode['attachments'];
+    }
+    if (this.isPosition(source['manualOffset'])) node.manualOffset = source['manualOffset'];
+    if (this.isPosition(source['absolutePosition'])) {
+      node.absolutePosition = source['absolutePosition'];
+    }
+
+    return node;
+  }
+
+  /**
+   * A task with its due date turned back into a Date (JSON keeps it as an ISO string)
+   */
+  private readTask(source: Record<string, unknown>): NodeTask {
+    const { dueDate, ...task } = source;
+    const due = typeof dueDate === 'string' ? new Date(dueDate) : undefined;
+    return (due && !isNaN(due.getTime()) ? { ...task, dueDate: due } : task) as NodeTask;
+  }
+
+  private readSettings(source: unknown): MindMapSettings {
+    const settings: MindMapSettings = { theme: 'system', layoutMode: 'freeform' };
+    if (!this.isRecord(source)) return settings;
+
+    if (source['theme'] === 'light' || source['theme'] === 'dark') {
+      settings.theme = source['theme'];
+    }
+    if (source['layoutMode'] === 'auto') {
+      settings.layoutMode = 'auto';
+    }
+    if (LAYOUT_STYLES.includes(source['layoutStyle'] as LayoutStyle)) {
+      settings.layoutStyle = source['layoutStyle'] as LayoutStyle;
+    }
+    if (typeof source['defaultNodeColor'] === 'string') {
+      settings.defaultNodeColor = source['defaultNodeColor'];
+    }
+    if (Number.isInteger(source['historyDepth']) && (source['historyDepth'] as number) > 0) {
+      settings.historyDepth = source['historyDepth'] as number;
+    }
+    return settings;
+  }
+
+  /**
+   * Document element of an XML file
+   */
+  private parseXml(xml: string): Element {
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+      throw new Error('The file is not valid XML.');
+    }
+    return doc.documentElement;
+  }
+
+  private getIndentWidth(whitespace: string): number {
+    // A tab counts as four spaces
+    return whitespace.replace(/\t/g, '    ').length;
+  }
+
+  private isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private isPosition(value: unknown): value is { x: number; y: number } {
+    return this.isRecord(value) && typeof value['x'] === 'number' && typeof value['y'] === 'number';
+  }
+}
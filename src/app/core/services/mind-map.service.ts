@@ -12,7 +12,7 @@ import { Firestore } from '@angular/fire/firestore';
 import { toSignal, toObservable } from '@angular/core/rxjs-interop';
 import { DbService } from './db.service';
 import { AuthService } from './auth.service';
-import { MindMap, MindMapNode } from '../models/mind-map.model';
+import { MindMap, MindMapNode, MindMapSettings } from '../models/mind-map.model';
 
 @Injectable({
   providedIn: 'root',
@@ -94,8 +94,8 @@ export class MindMapService {
     description?: string
   ): Promise<{ map: MindMap; rootNode: MindMapNode }> {
     const now = new Date();
-    const mapId = `map_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-    const rootNodeId = `node_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+    const mapId = this.generateId('map');
+    const rootNodeId = this.generateId('node');
 
     const map: MindMap = {
       id: mapId,
@@ -131,6 +131,54 @@ export class MindMapService {
     return { map, rootNode };
   }
 
+  /**
+   * Create a new map from a copy of existing nodes (fork of a version, import).
+   * Every node gets a fresh ID so the copy never collides with its source.
+   */
+  async createMapFromNodes(
+    name: string,
+    userId: string,
+    sourceNodes: MindMapNode[],
+    sourceRootId: string,
+    settings: MindMapSettings = { theme: 'system', layoutMode: 'freeform' }
+  ): Promise<MindMap> {
+    const now = new Date();
+    const mapId = this.generateId('map');
+
+    const idMap = new Map<string, string>();
+    sourceNodes.forEach((node) => idMap.set(node.id, this.generateId('node')));
+    const rootNodeId = idMap.get(sourceRootId);
+    if (!rootNodeId) {
+      throw new Error('Root node missing from source nodes');
+    }
+
+    const nodes: MindMapNode[] = sourceNodes.map((node) => ({
+      ...node,
+      id: idMap.get(node.id)!,
+      userId,
+      mapId,
+      parentId: node.parentId ? (idMap.get(node.parentId) ?? null) : null,
+      childrenIds: node.childrenIds.flatMap((id) => idMap.get(id) ?? []),
+      createdAt: now,
+      updatedAt: now,
+    }));
+
+    const map: MindMap = {
+      id: mapId,
+      userId,
+      name,
+      rootNodeId,
+      settings,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.db.setDocument('mindmaps', mapId, map);
+    await this.saveNodes(nodes);
+
+    return map;
+  }
+
   /**
    * Update a mind map
    */
@@ -142,7 +190,7 @@ export class MindMapService {
   }
 
   /**
-   * Delete a mind map and all its nodes
+   * Delete a mind map with all its nodes and versions
    */
   async deleteMap(mapId: string, userId: string): Promise<void> {
     // Get all nodes for this map
@@ -151,6 +199,14 @@ export class MindMapService {
     // Delete all nodes
     await Promise.all(nodes.map((node) => this.db.deleteDocument('mindmapNodes', node.id)));
 
+    // Delete all saved versions
+    const versions = await this.db.getDocuments<{ id: string }>(
+      'mindmapVersions',
+      where('userId', '==', userId),
+      where('mapId', '==', mapId)
+    );
+    await Promise.all(versions.map((v) => this.db.deleteDocument('mindmapVersions', v.id)));
+
     // Delete the map
     await this.db.deleteDocument('mindmaps', mapId);
   }
@@ -160,7 +216,7 @@ export class MindMapService {
    */
   async createNode(node: Omit<MindMapNode, 'id' | 'createdAt' | 'updatedAt'>): Promise<MindMapNode> {
     const now = new Date();
-    const nodeId = `node_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+    const nodeId = this.generateId('node');
 
     const newNode: MindMapNode = {
       ...node,
@@ -292,4 +348,8 @@ export class MindMapService {
       nodeIds.map((id) => this.db.deleteDocument('mindmapNodes', id))
     );
   }
+
+  private generateId(prefix: 'map' | 'node'): string {
+    return `${prefix}_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+  }
 }
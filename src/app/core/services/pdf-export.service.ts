@@ -0,0 +1,418 @@
+import { Injectable, inject } from '@angular/core';
+import { MapImageService, MapThemeColors } from './map-image.service';
+import { NodeBox } from './layout.service';
+import { MindMapStore } from '../../store/mind-map.store';
+import { MindMapNode } from '../models/mind-map.model';
+
+export interface PdfExportOptions {
+  // One page scaled to fit, or tiled across pages at full size
+  layout: 'fit' | 'tiled';
+  pageSize: 'a4' | 'letter';
+  // Append pages listing every node's text in tree order
+  includeOutline: boolean;
+}
+
+// Page sizes in points (1/72 inch), portrait
+const PAGE_SIZES: Record<PdfExportOptions['pageSize'], { width: number; height: number }> = {
+  a4: { width: 595.28, height: 841.89 },
+  letter: { width: 612, height: 792 },
+};
+
+const PAGE_MARGIN = 36;
+// Band below the map for the page label
+const FOOTER_HEIGHT = 18;
+// Map content repeated on neighboring tiles, so pages can be trimmed and taped together
+const TILE_OVERLAP = 36;
+// Points per canvas pixel on tiled pages (a 96 dpi screen pixel printed at its real size)
+const TILED_SCALE = 0.75;
+// Resolution of the map images embedded in the pages
+const RASTER_DPI = 150;
+const JPEG_QUALITY = 0.92;
+
+const OUTLINE_FONT_SIZE = 10;
+const OUTLINE_LINE_HEIGHT = 14;
+const OUTLINE_INDENT = 14;
+// Deeper levels share the last indent so text keeps a usable width
+const OUTLINE_MAX_INDENT_DEPTH = 10;
+const OUTLINE_TITLE_SIZE = 14;
+
+// Light theme colors on white paper, whatever theme the app is using
+const PRINT_COLORS: MapThemeColors = {
+  background: '#ffffff',
+  nodeBackground: '#ffffff',
+  nodeBorder: '#e0e0e0',
+  connection: '#9575cd',
+  text: '#1d1b20',
+};
+
+// Characters of Windows-1252 (the standard fonts' WinAnsiEncoding) outside Latin-1
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80,
+  '‚': 0x82,
+  '„': 0x84,
+  '…': 0x85,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+  '™': 0x99,
+};
+
+// Page being assembled: drawing operators plus the images they reference
+interface PdfPage {
+  width: number;
+  height: number;
+  content: string[];
+  images: { name: string; width: number; height: number; data: Uint8Array<ArrayBuffer> }[];
+}
+
+/**
+ * Printable PDF of the open map, generated in the browser. The map is embedded as
+ * JPEG images; text (labels and the outline appendix) uses the standard Helvetica font.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class PdfExportService {
+  private store = inject(MindMapStore);
+  private mapImage = inject(MapImageService);
+
+  async toPdf(options: PdfExportOptions): Promise<Blob> {
+    // Node icons are drawn with the icon font
+    await document.fonts.ready;
+
+    const pages =
+      options.layout === 'fit'
+        ? [await this.createFitPage(options)]
+        : await this.createTiledPages(options);
+    if (options.includeOutline) {
+      pages.push(...this.createOutlinePages(options));
+    }
+
+    return this.writePdf(pages);
+  }
+
+  /**
+   * The whole map scaled down to fit one page (never enlarged beyond the tiled size)
+   */
+  private async createFitPage(options: PdfExportOptions): Promise<PdfPage> {
+    const bounds = this.mapImage.getMapBounds();
+    const page = this.createPage(options, bounds.width >= bounds.height);
+    const area = this.getPrintArea(page);
+
+    const scale = Math.min(area.width / bounds.width, area.height / bounds.height, TILED_SCALE);
+    const width = bounds.width * scale;
+    const height = bounds.height * scale;
+    // Centered horizontally, at the top of the print area
+    const x = area.x + (area.width - width) / 2;
+    const y = area.y + area.height - height;
+
+    await this.addMapImage(page, bounds, scale, { x, y, width, height });
+    this.addText(page, this.store.currentMap()?.name ?? '', area.x, PAGE_MARGIN, 9);
+    return page;
+  }
+
+  /**
+   * The map at full size, split into overlapping tiles in rows and columns.
+   * Dashed lines on each page mark where the neighboring tile's content starts.
+   */
+  private async createTiledPages(options: PdfExportOptions): Promise<PdfPage[]> {
+    const bounds = this.mapImage.getMapBounds();
+    const mapWidth = bounds.width * TILED_SCALE;
+    const mapHeight = bounds.height * TILED_SCALE;
+
+    // Use the orientation that needs fewer pages
+    const grids = [false, true].map((landscape) => {
+      const area = this.getPrintArea(this.createPage(options, landscape));
+      const columns = this.getTileCount(mapWidth, area.width);
+      const rows = this.getTileCount(mapHeight, area.height);
+      return { landscape, columns, rows };
+    });
+    const grid = grids.reduce((best, candidate) =>
+      candidate.columns * candidate.rows < best.columns * best.rows ? candidate : best
+    );
+
+    const pages: PdfPage[] = [];
+    for (let row = 0; row < grid.rows; row++) {
+      for (let column = 0; column < grid.columns; column++) {
+        const page = this.createPage(options, grid.landscape);
+        const area = this.getPrintArea(page);
+        const region: NodeBox = {
+          x: bounds.x + (column * (area.width - TILE_OVERLAP)) / TILED_SCALE,
+          y: bounds.y + (row * (area.height - TILE_OVERLAP)) / TILED_SCALE,
+          width: area.width / TILED_SCALE,
+          height: area.height / TILED_SCALE,
+        };
+
+        await this.addMapImage(page, region, TILED_SCALE, area);
+        this.addOverlapMarks(page, area, {
+          left: column > 0,
+          right: column < grid.columns - 1,
+          top: row > 0,
+          bottom: row < grid.rows - 1,
+        });
+
+        const label =
+          `Row ${row + 1} of ${grid.rows}, column ${column + 1} of ${grid.columns}` +
+          ' - trim or overlap along the dashed lines';
+        this.addText(page, label, area.x, PAGE_MARGIN, 9);
+        pages.push(page);
+      }
+    }
+
+    return pages;
+  }
+
+  /**
+   * Pages listing the text of every node (collapsed branches included) in tree order
+   */
+  private createOutlinePages(options: PdfExportOptions): PdfPage[] {
+    const map = this.store.currentMap();
+    const nodes = this.store.nodes();
+    const ctx = document.createElement('canvas').getContext('2d');
+    if (!map || !ctx) return [];
+
+    // Arial shares Helvetica's metrics, so it measures the PDF text closely enough
+    ctx.font = `${OUTLINE_FONT_SIZE}px Helvetica, Arial, sans-serif`;
+
+    const pages: PdfPage[] = [];
+    let page = this.createPage(options, false);
+    let area = this.getPrintArea(page);
+    let y = area.y + area.height - OUTLINE_TITLE_SIZE;
+    this.addText(page, `Outline: ${map.name}`, area.x, y, OUTLINE_TITLE_SIZE, true);
+    y -= OUTLINE_LINE_HEIGHT * 2;
+
+    const addLine = (text: string, indent: number) => {
+      if (y < area.y) {
+        pages.push(page);
+        page = this.createPage(options, false);
+        area = this.getPrintArea(page);
+        y = area.y + area.height - OUTLINE_FONT_SIZE;
+      }
+      this.addText(page, text, area.x + indent, y, OUTLINE_FONT_SIZE);
+      y -= OUTLINE_LINE_HEIGHT;
+    };
+
+    const visit = (node: MindMapNode | undefined, depth: number) => {
+      if (!node) return;
+
+      const indent = Math.min(depth, OUTLINE_MAX_INDENT_DEPTH) * OUTLINE_INDENT;
+      const checkbox = node.task ? (node.task.isComplete ? '[x] ' : '[ ] ') : '';
+      const lines = this.mapImage.wrapText(ctx, `${checkbox}${node.text}`, area.width - indent);
+      lines.forEach((line) => addLine(line, indent));
+      node.childrenIds.forEach((childId) => visit(nodes[childId], depth + 1));
+    };
+
+    visit(nodes[map.rootNodeId], 0);
+    pages.push(page);
+    return pages;
+  }
+
+  private createPage(options: PdfExportOptions, landscape: boolean): PdfPage {
+    const size = PAGE_SIZES[options.pageSize];
+    return landscape
+      ? { width: size.height, height: size.width, content: [], images: [] }
+      : { width: size.width, height: size.height, content: [], images: [] };
+  }
+
+  /**
+   * Printable area of a page in PDF coordinates (origin at the bottom left)
+   */
+  private getPrintArea(page: PdfPage): NodeBox {
+    return {
+      x: PAGE_MARGIN,
+      y: PAGE_MARGIN + FOOTER_HEIGHT,
+      width: page.width - PAGE_MARGIN * 2,
+      height: page.height - PAGE_MARGIN * 2 - FOOTER_HEIGHT,
+    };
+  }
+
+  private getTileCount(length: number, pageLength: number): number {
+    return Math.max(1, Math.ceil((length - TILE_OVERLAP) / (pageLength - TILE_OVERLAP)));
+  }
+
+  /**
+   * Render a region of the map (`scale` points per canvas pixel) and place it on the page
+   */
+  private async addMapImage(
+    page: PdfPage,
+    region: NodeBox,
+    scale: number,
+    placement: NodeBox
+  ): Promise<void> {
+    const canvas = this.mapImage.renderRegion(region, (scale * RASTER_DPI) / 72, PRINT_COLORS);
+    const blob = await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(
+        (result) => (result ? resolve(result) : reject(new Error('JPEG encoding failed'))),
+        'image/jpeg',
+        JPEG_QUALITY
+      );
+    });
+
+    const name = `Im${page.images.length + 1}`;
+    page.images.push({
+      name,
+      width: canvas.width,
+      height: canvas.height,
+      data: new Uint8Array(await blob.arrayBuffer()),
+    });
+    const matrix = [placement.width, 0, 0, placement.height, placement.x, placement.y];
+    const transform = matrix.map((value) => this.formatNumber(value)).join(' ');
+    page.content.push(`q ${transform} cm /${name} Do Q`);
+  }
+
+  private addOverlapMarks(
+    page: PdfPage,
+    area: NodeBox,
+    edges: { left: boolean; right: boolean; top: boolean; bottom: boolean }
+  ): void {
+    const left = area.x;
+    const right = area.x + area.width;
+    const bottom = area.y;
+    const top = area.y + area.height;
+    const lines: [number, number, number, number][] = [];
+
+    if (edges.left) lines.push([left + TILE_OVERLAP, bottom, left + TILE_OVERLAP, top]);
+    if (edges.right) lines.push([right - TILE_OVERLAP, bottom, right - TILE_OVERLAP, top]);
+    if (edges.top) lines.push([left, top - TILE_OVERLAP, right, top - TILE_OVERLAP]);
+    if (edges.bottom) lines.push([left, bottom + TILE_OVERLAP, right, bottom + TILE_OVERLAP]);
+    if (lines.length === 0) return;
+
+    page.content.push(
+      'q 0.6 G 0.5 w [4 3] 0 d',
+      ...lines.map((line) => {
+        const [x1, y1, x2, y2] = line.map((value) => this.formatNumber(value));
+        return `${x1} ${y1} m ${x2} ${y2} l S`;
+      }),
+      'Q'
+    );
+  }
+
+  private addText(
+    page: PdfPage,
+    text: string,
+    x: number,
+    y: number,
+    size: number,
+    bold = false
+  ): void {
+    const font = bold ? 'F2' : 'F1';
+    const position = `${this.formatNumber(x)} ${this.formatNumber(y)}`;
+    const content = this.encodeText(text);
+    page.content.push(`BT 0.2 g /${font} ${size} Tf ${position} Td (${content}) Tj ET`);
+  }
+
+  /**
+   * PDF string content in WinAnsiEncoding; characters the standard fonts lack become '?'
+   */
+  private encodeText(text: string): string {
+    return Array.from(text)
+      .map((char) => {
+        const code = char.charCodeAt(0);
+        const printable = (code >= 32 && code < 127) || (code >= 160 && code <= 255);
+        const byte = WIN_ANSI_EXTRAS[char] ?? (printable ? code : 63);
+        const escaped = String.fromCharCode(byte);
+        return escaped === '(' || escaped === ')' || escaped === '\\' ? `\\${escaped}` : escaped;
+      })
+      .join('');
+  }
+
+  /**
+   * Serialize the pages as a PDF 1.4 file (catalog, page tree, two standard fonts,
+   * then each page's content stream and images)
+   */
+  private writePdf(pages: PdfPage[]): Blob {
+    const chunks: Uint8Array<ArrayBuffer>[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+
+    const write = (data: string | Uint8Array<ArrayBuffer>) => {
+      const bytes = typeof data === 'string' ? this.toBytes(data) : data;
+      chunks.push(bytes);
+      length += bytes.length;
+    };
+    const writeObject = (id: number, body: string, stream?: Uint8Array<ArrayBuffer>) => {
+      offsets[id] = length;
+      write(`${id} 0 obj\n${body}\n`);
+      if (stream) {
+        write('stream\n');
+        write(stream);
+        write('\nendstream\n');
+      }
+      write('endobj\n');
+    };
+
+    // Object numbers: 1 catalog, 2 page tree, 3-4 fonts, then per page: page, content, images
+    const pageIds: number[] = [];
+    let nextId = 5;
+    const layout = pages.map((page) => {
+      const pageId = nextId++;
+      const contentId = nextId++;
+      const imageIds = page.images.map(() => nextId++);
+      pageIds.push(pageId);
+      return { page, pageId, contentId, imageIds };
+    });
+
+    write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+    writeObject(1, '<< /Type /Catalog /Pages 2 0 R >>');
+    writeObject(
+      2,
+      `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] ` +
+        `/Count ${pageIds.length} >>`
+    );
+    writeObject(
+      3,
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>'
+    );
+    writeObject(
+      4,
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'
+    );
+
+    layout.forEach(({ page, pageId, contentId, imageIds }) => {
+      const images = page.images.map((image, index) => `/${image.name} ${imageIds[index]} 0 R`);
+      writeObject(
+        pageId,
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${page.width} ${page.height}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> /XObject << ${images.join(' ')} >> >> ` +
+          `/Contents ${contentId} 0 R >>`
+      );
+
+      const content = this.toBytes(page.content.join('\n'));
+      writeObject(contentId, `<< /Length ${content.length} >>`, content);
+
+      page.images.forEach((image, index) => {
+        writeObject(
+          imageIds[index],
+          `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+            `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode ` +
+            `/Length ${image.data.length} >>`,
+          image.data
+        );
+      });
+    });
+
+    const xrefOffset = length;
+    const entries = offsets
+      .slice(1)
+      .map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`)
+      .join('');
+    write(`xref\n0 ${nextId}\n0000000000 65535 f \n${entries}`);
+    write(`trailer\n<< /Size ${nextId} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    return new Blob(chunks, { type: 'application/pdf' });
+  }
+
+  // PDF numbers can't use exponent notation; two decimals are plenty for points
+  private formatNumber(value: number): string {
+    return String(Math.round(value * 100) / 100);
+  }
+
+  // Strings written to the file only hold single-byte characters
+  private toBytes(text: string): Uint8Array<ArrayBuffer> {
+    return Uint8Array.from(text, (char) => char.charCodeAt(0) & 0xff);
+  }
+}
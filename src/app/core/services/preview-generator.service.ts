@@ -1,6 +1,6 @@
-import { Injectable } from '@angular/core';
-import { MindMapNode, Position } from '../models/mind-map.model';
-import { LAYOUT_CONSTANTS } from './layout.service';
+import { Injectable, inject } from '@angular/core';
+import { LayoutStyle, MindMapNode, Position, Size } from '../models/mind-map.model';
+import { ConnectionAxis, LayoutService } from './layout.service';
 
 interface BoundingBox {
   minX: number;
@@ -13,24 +13,38 @@ interface BoundingBox {
   providedIn: 'root',
 })
 export class PreviewGeneratorService {
+  private layoutService = inject(LayoutService);
+
   private readonly PREVIEW_WIDTH = 300;
   private readonly PREVIEW_HEIGHT = 200;
   private readonly PADDING = 20;
 
   /**
    * Generate an SVG preview string from nodes and their positions.
+   * Connections follow the orientation of the map's layout style and nodes
+   * are drawn at their measured sizes.
    */
-  generatePreview(nodes: MindMapNode[], positions: Record<string, Position>): string {
+  generatePreview(
+    nodes: MindMapNode[],
+    positions: Record<string, Position>,
+    layoutStyle: LayoutStyle = 'horizontal',
+    sizes: Record<string, Size> = {}
+  ): string {
     if (nodes.length === 0) {
       return this.generateEmptyPreview();
     }
 
+    const nodeSizes: Record<string, Size> = {};
+    nodes.forEach((node) => {
+      nodeSizes[node.id] = this.layoutService.getNodeSize(node, sizes);
+    });
+
     // Calculate bounding box
-    const bbox = this.calculateBoundingBox(nodes, positions);
+    const bbox = this.calculateBoundingBox(nodes, positions, nodeSizes);
 
     // Calculate scale to fit in preview dimensions
-    const contentWidth = bbox.maxX - bbox.minX + LAYOUT_CONSTANTS.NODE_WIDTH;
-    const contentHeight = bbox.maxY - bbox.minY + LAYOUT_CONSTANTS.NODE_HEIGHT;
+    const contentWidth = bbox.maxX - bbox.minX;
+    const contentHeight = bbox.maxY - bbox.minY;
 
     const availableWidth = this.PREVIEW_WIDTH - this.PADDING * 2;
     const availableHeight = this.PREVIEW_HEIGHT - this.PADDING * 2;
@@ -46,8 +60,17 @@ export class PreviewGeneratorService {
     const offsetY = (this.PREVIEW_HEIGHT - scaledHeight) / 2 - bbox.minY * scale;
 
     // Generate SVG elements
-    const connections = this.generateConnections(nodes, positions, scale, offsetX, offsetY);
-    const nodeElements = this.generateNodes(nodes, positions, scale, offsetX, offsetY);
+    const axis = this.layoutService.getConnectionAxis(layoutStyle);
+    const connections = this.generateConnections(
+      nodes,
+      positions,
+      nodeSizes,
+      scale,
+      offsetX,
+      offsetY,
+      axis
+    );
+    const nodeElements = this.generateNodes(nodes, positions, nodeSizes, scale, offsetX, offsetY);
 
     return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${this.PREVIEW_WIDTH} ${this.PREVIEW_HEIGHT}" preserveAspectRatio="xMidYMid meet">
   <rect width="100%" height="100%" fill="var(--canvas-bg, #1e1e1e)" rx="8"/>
@@ -65,7 +88,8 @@ export class PreviewGeneratorService {
 
   private calculateBoundingBox(
     nodes: MindMapNode[],
-    positions: Record<string, Position>
+    positions: Record<string, Position>,
+    sizes: Record<string, Size>
   ): BoundingBox {
     let minX = Infinity;
     let minY = Infinity;
@@ -77,8 +101,8 @@ export class PreviewGeneratorService {
       if (pos) {
         minX = Math.min(minX, pos.x);
         minY = Math.min(minY, pos.y);
-        maxX = Math.max(maxX, pos.x);
-        maxY = Math.max(maxY, pos.y);
+        maxX = Math.max(maxX, pos.x + sizes[node.id].width);
+        maxY = Math.max(maxY, pos.y + sizes[node.id].height);
       }
     });
 
@@ -88,35 +112,32 @@ export class PreviewGeneratorService {
   private generateConnections(
     nodes: MindMapNode[],
     positions: Record<string, Position>,
+    sizes: Record<string, Size>,
     scale: number,
     offsetX: number,
-    offsetY: number
+    offsetY: number,
+    axis: ConnectionAxis | null
   ): string {
     const paths: string[] = [];
-    const nodeWidth = LAYOUT_CONSTANTS.NODE_WIDTH * scale;
-    const nodeHeight = LAYOUT_CONSTANTS.NODE_HEIGHT * scale;
 
     nodes.forEach((node) => {
       if (node.parentId) {
         const parentPos = positions[node.parentId];
         const childPos = positions[node.id];
+        const parentSize = sizes[node.parentId];
 
-        if (parentPos && childPos) {
-          // Determine anchor edges based on relative position
-          const { startX, startY, endX, endY } = this.getConnectionPoints(
+        if (parentPos && childPos && parentSize) {
+          const path = this.getConnectionPath(
             parentPos,
+            parentSize,
             childPos,
+            sizes[node.id],
+            axis,
             scale,
             offsetX,
-            offsetY,
-            nodeWidth,
-            nodeHeight
+            offsetY
           );
 
-          // Simple curved line
-          const midX = (startX + endX) / 2;
-          const path = `M ${startX} ${startY} Q ${midX} ${startY}, ${midX} ${(startY + endY) / 2} T ${endX} ${endY}`;
-
           // Use connection-specific color, fall back to node color, then default
           const strokeColor = node.style?.connectionColor || node.style?.color || 'var(--connection-color, #b39ddb)';
           const isDashed = node.style?.connectionDashed ?? false;
@@ -132,62 +153,100 @@ export class PreviewGeneratorService {
     return paths.join('\n  ');
   }
 
+  /**
+   * Path data for a simple curved connection between two nodes, bending along the
+   * connection's axis. Coordinates are scaled and offset into the target drawing.
+   */
+  getConnectionPath(
+    parentPos: Position,
+    parentSize: Size,
+    childPos: Position,
+    childSize: Size,
+    axis: ConnectionAxis | null,
+    scale = 1,
+    offsetX = 0,
+    offsetY = 0
+  ): string {
+    // Determine anchor edges based on relative position
+    const { startX, startY, endX, endY, vertical } = this.getConnectionPoints(
+      parentPos,
+      parentSize,
+      childPos,
+      childSize,
+      scale,
+      offsetX,
+      offsetY,
+      axis
+    );
+
+    const midX = (startX + endX) / 2;
+    const midY = (startY + endY) / 2;
+    return vertical
+      ? `M ${startX} ${startY} Q ${startX} ${midY}, ${midX} ${midY} T ${endX} ${endY}`
+      : `M ${startX} ${startY} Q ${midX} ${startY}, ${midX} ${midY} T ${endX} ${endY}`;
+  }
+
   private getConnectionPoints(
     parentPos: Position,
+    parentSize: Size,
     childPos: Position,
+    childSize: Size,
     scale: number,
     offsetX: number,
     offsetY: number,
-    nodeWidth: number,
-    nodeHeight: number
-  ): { startX: number; startY: number; endX: number; endY: number } {
-    const parentCenterX = parentPos.x * scale + offsetX + nodeWidth / 2;
-    const parentCenterY = parentPos.y * scale + offsetY + nodeHeight / 2;
-    const childCenterX = childPos.x * scale + offsetX + nodeWidth / 2;
-    const childCenterY = childPos.y * scale + offsetY + nodeHeight / 2;
+    axis: ConnectionAxis | null
+  ): { startX: number; startY: number; endX: number; endY: number; vertical: boolean } {
+    const parentX = parentPos.x * scale + offsetX;
+    const parentY = parentPos.y * scale + offsetY;
+    const parentWidth = parentSize.width * scale;
+    const parentHeight = parentSize.height * scale;
+    const childX = childPos.x * scale + offsetX;
+    const childY = childPos.y * scale + offsetY;
+    const childWidth = childSize.width * scale;
+    const childHeight = childSize.height * scale;
 
-    const dx = childCenterX - parentCenterX;
-    const dy = childCenterY - parentCenterY;
+    const dx = childX + childWidth / 2 - (parentX + parentWidth / 2);
+    const dy = childY + childHeight / 2 - (parentY + parentHeight / 2);
 
     let startX: number, startY: number, endX: number, endY: number;
+    const horizontal = axis ? axis === 'horizontal' : Math.abs(dx) >= Math.abs(dy);
 
-    if (Math.abs(dx) >= Math.abs(dy)) {
+    if (horizontal) {
       // Horizontal dominant
       if (dx >= 0) {
-        startX = parentPos.x * scale + offsetX + nodeWidth;
-        endX = childPos.x * scale + offsetX;
+        startX = parentX + parentWidth;
+        endX = childX;
       } else {
-        startX = parentPos.x * scale + offsetX;
-        endX = childPos.x * scale + offsetX + nodeWidth;
+        startX = parentX;
+        endX = childX + childWidth;
       }
-      startY = parentPos.y * scale + offsetY + nodeHeight / 2;
-      endY = childPos.y * scale + offsetY + nodeHeight / 2;
+      startY = parentY + parentHeight / 2;
+      endY = childY + childHeight / 2;
     } else {
       // Vertical dominant
       if (dy >= 0) {
-        startY = parentPos.y * scale + offsetY + nodeHeight;
-        endY = childPos.y * scale + offsetY;
+        startY = parentY + parentHeight;
+        endY = childY;
       } else {
-        startY = parentPos.y * scale + offsetY;
-        endY = childPos.y * scale + offsetY + nodeHeight;
+        startY = parentY;
+        endY = childY + childHeight;
       }
-      startX = parentPos.x * scale + offsetX + nodeWidth / 2;
-      endX = childPos.x * scale + offsetX + nodeWidth / 2;
+      startX = parentX + parentWidth / 2;
+      endX = childX + childWidth / 2;
     }
 
-    return { startX, startY, endX, endY };
+    return { startX, startY, endX, endY, vertical: !horizontal };
   }
 
   private generateNodes(
     nodes: MindMapNode[],
     positions: Record<string, Position>,
+    sizes: Record<string, Size>,
     scale: number,
     offsetX: number,
     offsetY: number
   ): string {
     const elements: string[] = [];
-    const nodeWidth = LAYOUT_CONSTANTS.NODE_WIDTH * scale;
-    const nodeHeight = LAYOUT_CONSTANTS.NODE_HEIGHT * scale;
 
     nodes.forEach((node) => {
       const pos = positions[node.id];
@@ -195,6 +254,8 @@ export class PreviewGeneratorService {
 
       const x = pos.x * scale + offsetX;
       const y = pos.y * scale + offsetY;
+      const nodeWidth = sizes[node.id].width * scale;
+      const nodeHeight = sizes[node.id].height * scale;
       const isRoot = !node.parentId;
       const fillColor = node.style?.color || 'var(--node-bg, #2d2d2d)';
       const strokeColor = isRoot ? 'var(--selection-color, #b388ff)' : 'var(--node-border, #404040)';
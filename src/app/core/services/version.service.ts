@@ -0,0 +1,251 @@
+import { Injectable, inject } from '@angular/core';
+import { where } from '@angular/fire/firestore';
+import { DbService } from './db.service';
+import { MindMapService } from './mind-map.service';
+import { MindMapStore } from '../../store/mind-map.store';
+import {
+  MindMap,
+  MindMapNode,
+  MindMapVersion,
+  NodeChange,
+  NodeChangeKind,
+  Position,
+} from '../models/mind-map.model';
+
+const VERSIONS_COLLECTION = 'mindmapVersions';
+
+// A version is one document; Firestore rejects documents over 1 MiB (kept with some margin)
+const MAX_VERSION_BYTES = 1_000_000;
+
+@Injectable({
+  providedIn: 'root',
+})
+export class VersionService {
+  private db = inject(DbService);
+  private mindMapService = inject(MindMapService);
+  private store = inject(MindMapStore);
+
+  private readonly AUTO_VERSION_INTERVAL_MS = 10 * 60 * 1000; // At most one every 10 minutes
+  private readonly MAX_AUTO_VERSIONS = 20; // Older automatic versions are pruned
+
+  // When the last automatic version was taken, per map (for this session)
+  private lastAutoVersionAt = new Map<string, number>();
+
+  /**
+   * Get all versions of a map, newest first
+   */
+  async getVersions(mapId: string, userId: string): Promise<MindMapVersion[]> {
+    const versions = await this.db.getDocuments<MindMapVersion>(
+      VERSIONS_COLLECTION,
+      where('userId', '==', userId),
+      where('mapId', '==', mapId)
+    );
+    // Sorted client-side so the query needs no composite index
+    return versions.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  /**
+   * Save a snapshot of the map currently open in the editor
+   */
+  async createVersion(name: string, isAutomatic = false): Promise<MindMapVersion | null> {
+    const version = this.captureCurrentMap(name, isAutomatic);
+    if (!version) return null;
+
+    const size = new Blob([JSON.stringify(version)]).size;
+    if (size > MAX_VERSION_BYTES) {
+      throw new Error(
+        `The map is too large to keep as a version (${Math.round(size / 1024)} KB, limit 1 MB).`
+      );
+    }
+
+    await this.db.setDocument(VERSIONS_COLLECTION, version.id, version);
+    return version;
+  }
+
+  /**
+   * Unsaved snapshot of the map currently open in the editor (e.g. to compare against)
+   */
+  captureCurrentMap(name: string, isAutomatic = false): MindMapVersion | null {
+    const map = this.store.currentMap();
+    if (!map) return null;
+
+    // Nodes inside collapsed branches are not drawn, so their positions are not kept
+    const hidden = this.store.hiddenNodeIds();
+    const positions = Object.fromEntries(
+      Object.entries(this.store.nodePositions()).filter(([id]) => !hidden.has(id))
+    );
+
+    return {
+      id: this.generateId(),
+      userId: map.userId,
+      mapId: map.id,
+      name,
+      isAutomatic,
+      mapName: map.name,
+      rootNodeId: map.rootNodeId,
+      settings: map.settings,
+      nodes: this.store.nodesArray(),
+      positions,
+      sizes: this.store.nodeSizes(),
+      createdAt: new Date(),
+    };
+  }
+
+  /**
+   * Take an automatic version if enough time has passed since the last one
+   * (called after every successful auto-save)
+   */
+  async maybeCreateAutoVersion(): Promise<void> {
+    const map = this.store.currentMap();
+    if (!map) return;
+
+    const now = Date.now();
+    const last = this.lastAutoVersionAt.get(map.id);
+    if (last !== undefined && now - last < this.AUTO_VERSION_INTERVAL_MS) return;
+
+    this.lastAutoVersionAt.set(map.id, now);
+    await this.createVersion('Automatic snapshot', true);
+    await this.pruneAutoVersions(map.id, map.userId);
+  }
+
+  /**
+   * Delete a version
+   */
+  async deleteVersion(versionId: string): Promise<void> {
+    await this.db.deleteDocument(VERSIONS_COLLECTION, versionId);
+  }
+
+  /**
+   * Replace the saved map with a version. The current state is kept as an
+   * automatic version first, so restoring never loses work.
+   * Returns the updated map; nodes are the version's nodes.
+   */
+  async restoreVersion(version: MindMapVersion): Promise<MindMap> {
+    await this.createVersion(`Before restoring "${version.name}"`, true);
+
+    // Nodes created after the snapshot no longer belong to the map
+    const current = await this.mindMapService.getNodesOnce(version.mapId, version.userId);
+    const kept = new Set(version.nodes.map((node) => node.id));
+    await this.mindMapService.deleteNodesByIds(
+      current.filter((node) => !kept.has(node.id)).map((node) => node.id)
+    );
+
+    await this.mindMapService.saveNodes(version.nodes);
+    await this.mindMapService.updateMap(version.mapId, {
+      rootNodeId: version.rootNodeId,
+      settings: version.settings,
+    });
+
+    const map = await this.mindMapService.getMap(version.mapId);
+    if (!map) {
+      throw new Error('Map not found');
+    }
+    return map;
+  }
+
+  /**
+   * Create a new map from a version, leaving the original map untouched
+   */
+  async forkVersion(version: MindMapVersion, name: string): Promise<MindMap> {
+    return await this.mindMapService.createMapFromNodes(
+      name,
+      version.userId,
+      version.nodes,
+      version.rootNodeId,
+      version.settings
+    );
+  }
+
+  /**
+   * Node-level differences from one version to a later one: added and deleted nodes,
+   * renamed nodes, and nodes moved to another parent or to a new pinned spot.
+   * Positions that only shifted because the layout reflowed do not count as moves.
+   */
+  compareVersions(base: MindMapVersion, target: MindMapVersion): NodeChange[] {
+    const baseNodes = new Map(base.nodes.map((node) => [node.id, node]));
+    const targetNodes = new Map(target.nodes.map((node) => [node.id, node]));
+    const changes: NodeChange[] = [];
+    // Switching layout mode rewrites every placement, which is not a user move
+    const sameLayoutMode = base.settings.layoutMode === target.settings.layoutMode;
+    // Placements inside collapsed branches are never drawn, so they don't count as moves
+    const hiddenInBase = this.getHiddenNodeIds(base.nodes);
+    const hiddenInTarget = this.getHiddenNodeIds(target.nodes);
+
+    target.nodes.forEach((node) => {
+      const before = baseNodes.get(node.id);
+      if (!before) {
+        changes.push({ nodeId: node.id, text: node.text, kinds: ['added'] });
+        return;
+      }
+
+      const kinds: NodeChangeKind[] = [];
+      const parentChanged = before.parentId !== node.parentId;
+      const hidden = hiddenInBase.has(node.id) && hiddenInTarget.has(node.id);
+      const placementMoved = sameLayoutMode && !hidden && this.placementChanged(before, node);
+      if (parentChanged || placementMoved) {
+        kinds.push('moved');
+      }
+      if (before.text !== node.text) {
+        kinds.push('renamed');
+      }
+      if (kinds.length > 0) {
+        changes.push({
+          nodeId: node.id,
+          text: node.text,
+          kinds,
+          previousText: before.text !== node.text ? before.text : undefined,
+          parentChanged,
+        });
+      }
+    });
+
+    base.nodes.forEach((node) => {
+      if (!targetNodes.has(node.id)) {
+        changes.push({ nodeId: node.id, text: node.text, kinds: ['deleted'] });
+      }
+    });
+
+    const rank: Record<NodeChangeKind, number> = { added: 0, deleted: 1, moved: 2, renamed: 3 };
+    return changes.sort(
+      (a, b) => rank[a.kinds[0]] - rank[b.kinds[0]] || a.text.localeCompare(b.text)
+    );
+  }
+
+  private placementChanged(before: MindMapNode, after: MindMapNode): boolean {
+    const same = (a?: Position, b?: Position) => a?.x === b?.x && a?.y === b?.y;
+    return (
+      !same(before.absolutePosition, after.absolutePosition) ||
+      !same(before.manualOffset, after.manualOffset)
+    );
+  }
+
+  /**
+   * IDs of nodes inside collapsed branches of a version's nodes
+   */
+  getHiddenNodeIds(nodes: MindMapNode[]): Set<string> {
+    const byId = new Map(nodes.map((node) => [node.id, node]));
+    const hidden = new Set<string>();
+
+    const hide = (node: MindMapNode) => {
+      node.childrenIds.forEach((childId) => {
+        const child = byId.get(childId);
+        if (!child || hidden.has(childId)) return;
+        hidden.add(childId);
+        hide(child);
+      });
+    };
+
+    nodes.filter((node) => node.isExpanded === false).forEach(hide);
+    return hidden;
+  }
+
+  private async pruneAutoVersions(mapId: string, userId: string): Promise<void> {
+    const versions = await this.getVersions(mapId, userId);
+    const stale = versions.filter((v) => v.isAutomatic).slice(this.MAX_AUTO_VERSIONS);
+    await Promise.all(stale.map((version) => this.deleteVersion(version.id)));
+  }
+
+  private generateId(): string {
+    return `version_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+  }
+}
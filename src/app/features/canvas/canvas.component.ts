@@ -9,13 +9,16 @@ import {
   afterNextRender,
 } from '@angular/core';
 import { MindMapStore } from '../../store/mind-map.store';
+import { ClipboardService } from '../../core/services/clipboard.service';
+import { MindMapNode } from '../../core/models/mind-map.model';
 import { NodeComponent } from '../node/node.component';
 import { ConnectionLayerComponent } from './connection-layer.component';
+import { SelectionToolbarComponent } from './selection-toolbar.component';
 
 @Component({
   selector: 'app-canvas',
   standalone: true,
-  imports: [NodeComponent, ConnectionLayerComponent],
+  imports: [NodeComponent, ConnectionLayerComponent, SelectionToolbarComponent],
   template: `
     <div
       class="canvas-container"
@@ -29,10 +32,10 @@ import { ConnectionLayerComponent } from './connection-layer.component';
       <div class="canvas-layer" [style.transform]="transformStyle()">
         <app-connection-layer />
 
-        @for (node of store.nodesArray(); track node.id) {
+        @for (node of store.visibleNodes(); track node.id) {
           <app-node
             [node]="node"
-            [isSelected]="node.id === store.selectedNodeId()"
+            [isSelected]="store.selectedNodeIds().has(node.id)"
             [isEditing]="node.id === store.editingNodeId()"
             (nodeClick)="onNodeClick($event)"
             (nodeDblClick)="onNodeDblClick($event)"
@@ -41,11 +44,37 @@ import { ConnectionLayerComponent } from './connection-layer.component';
             (addChildRequest)="addChildNode($event)"
             (addSiblingRequest)="addSiblingNode($event)"
             (deleteRequest)="deleteNode($event)"
+            (toggleExpandedRequest)="toggleExpanded($event)"
           />
         }
+
+        @if (store.reorderTarget(); as target) {
+          <div
+            class="insertion-indicator"
+            [class.vertical]="target.indicator.vertical"
+            [style.left.px]="target.indicator.x"
+            [style.top.px]="target.indicator.y"
+            [style.width.px]="target.indicator.vertical ? null : target.indicator.length"
+            [style.height.px]="target.indicator.vertical ? target.indicator.length : null"
+          ></div>
+        }
       </div>
+
+      @if (marquee(); as rect) {
+        <div
+          class="marquee"
+          [style.left.px]="rect.x"
+          [style.top.px]="rect.y"
+          [style.width.px]="rect.width"
+          [style.height.px]="rect.height"
+        ></div>
+      }
     </div>
 
+    @if (store.hasMultiSelection()) {
+      <app-selection-toolbar class="selection-toolbar" />
+    }
+
     <div class="zoom-controls">
       <button class="zoom-btn" (click)="store.zoomOut()" title="Zoom Out">−</button>
       <span class="zoom-level">{{ zoomPercentage() }}%</span>
@@ -56,6 +85,7 @@ import { ConnectionLayerComponent } from './connection-layer.component';
   styles: `
     :host {
       display: block;
+      position: relative;
       width: 100%;
       height: 100%;
       overflow: hidden;
@@ -88,6 +118,35 @@ import { ConnectionLayerComponent } from './connection-layer.component';
       will-change: transform;
     }
 
+    .insertion-indicator {
+      position: absolute;
+      height: 3px;
+      border-radius: 2px;
+      background: var(--selection-color);
+      transform: translateY(-50%);
+      pointer-events: none;
+      z-index: 20;
+
+      &.vertical {
+        width: 3px;
+        transform: translateX(-50%);
+      }
+    }
+
+    .marquee {
+      position: absolute;
+      border: 1px solid var(--selection-color);
+      background: rgba(124, 77, 255, 0.1);
+      pointer-events: none;
+    }
+
+    .selection-toolbar {
+      position: absolute;
+      top: 16px;
+      left: 50%;
+      transform: translateX(-50%);
+    }
+
     .zoom-controls {
       position: absolute;
       bottom: 16px;
@@ -134,6 +193,7 @@ import { ConnectionLayerComponent } from './connection-layer.component';
 export class CanvasComponent {
   readonly store = inject(MindMapStore);
   private destroyRef = inject(DestroyRef);
+  private clipboard = inject(ClipboardService);
 
   private canvasContainer = viewChild<ElementRef<HTMLDivElement>>('canvasContainer');
 
@@ -141,6 +201,10 @@ export class CanvasComponent {
   private isPanning = false;
   private isSpaceHeld = false;
   private lastMousePos = { x: 0, y: 0 };
+  private marqueeStart: { x: number; y: number } | null = null;
+
+  // Marquee rectangle in container coordinates while Shift+dragging on empty canvas
+  readonly marquee = signal<{ x: number; y: number; width: number; height: number } | null>(null);
 
   readonly transformStyle = computed(() => {
     const view = this.store.view();
@@ -176,9 +240,17 @@ export class CanvasComponent {
       }
     };
 
+    // Copy, cut and paste branches through the system clipboard
+    const onCopy = (event: ClipboardEvent) => this.handleCopy(event, false);
+    const onCut = (event: ClipboardEvent) => this.handleCopy(event, true);
+    const onPaste = (event: ClipboardEvent) => this.handlePaste(event);
+
     document.addEventListener('keydown', onKeyDown);
     document.addEventListener('keyup', onKeyUp);
     document.addEventListener('auxclick', onAuxClick);
+    document.addEventListener('copy', onCopy);
+    document.addEventListener('cut', onCut);
+    document.addEventListener('paste', onPaste);
     window.addEventListener('blur', onWindowBlur);
 
     // Clean up on destroy
@@ -186,6 +258,9 @@ export class CanvasComponent {
       document.removeEventListener('keydown', onKeyDown);
       document.removeEventListener('keyup', onKeyUp);
       document.removeEventListener('auxclick', onAuxClick);
+      document.removeEventListener('copy', onCopy);
+      document.removeEventListener('cut', onCut);
+      document.removeEventListener('paste', onPaste);
       window.removeEventListener('blur', onWindowBlur);
     });
   }
@@ -227,6 +302,18 @@ export class CanvasComponent {
     // Following shortcuts require a selected node
     if (!selectedId) return;
 
+    if (event.key === 'Escape') {
+      this.store.selectNode(null);
+      return;
+    }
+
+    // Bulk delete; other shortcuts act on the primary selected node
+    if ((event.key === 'Delete' || event.key === 'Backspace') && this.store.hasMultiSelection()) {
+      event.preventDefault();
+      this.store.deleteNodes([...this.store.selectedNodeIds()]);
+      return;
+    }
+
     switch (event.key) {
       case 'Tab':
         event.preventDefault();
@@ -245,7 +332,58 @@ export class CanvasComponent {
         event.preventDefault();
         this.store.startEditing(selectedId);
         break;
+      case '-':
+        event.preventDefault();
+        this.store.setExpanded(selectedId, false);
+        break;
+      case '+':
+      case '=':
+        event.preventDefault();
+        this.store.setExpanded(selectedId, true);
+        break;
+    }
+  }
+
+  private handleCopy(event: ClipboardEvent, cut: boolean): void {
+    if (!this.isCanvasClipboardEvent(event)) return;
+
+    const selectedIds = [...this.store.selectedNodeIds()];
+    if (selectedIds.length === 0) return;
+
+    this.clipboard.write(event, this.store.copySubtrees(selectedIds));
+    if (cut) {
+      this.store.deleteNodes(selectedIds);
+    }
+  }
+
+  private handlePaste(event: ClipboardEvent): void {
+    if (!this.isCanvasClipboardEvent(event)) return;
+
+    // Paste under the selected node, or under the root when nothing is selected
+    const parentId = this.store.selectedNodeId() ?? this.store.rootNode()?.id;
+    const content = this.clipboard.read(event);
+    if (!parentId || !content) return;
+
+    event.preventDefault();
+    this.store.pasteSubtrees(parentId, content);
+  }
+
+  /**
+   * Clipboard events in text fields (node editing, forms) or on text selected outside
+   * the canvas (panels, dialogs) keep their default behavior
+   */
+  private isCanvasClipboardEvent(event: ClipboardEvent): boolean {
+    if (this.store.editingNodeId()) return false;
+
+    const selection = window.getSelection();
+    const container = this.canvasContainer()?.nativeElement;
+    if (selection && !selection.isCollapsed && selection.toString().trim()) {
+      const range = selection.getRangeAt(0);
+      if (!container?.contains(range.commonAncestorContainer)) return false;
     }
+
+    const target = event.target as HTMLElement;
+    return target.tagName !== 'INPUT' && target.tagName !== 'TEXTAREA' && !target.isContentEditable;
   }
 
   private handleKeyUp(event: KeyboardEvent): void {
@@ -276,6 +414,17 @@ export class CanvasComponent {
     const target = event.target as HTMLElement;
     const isOnNode = target.closest('.node') !== null;
 
+    // Shift + drag on empty canvas draws a selection marquee
+    if (event.button === 0 && event.shiftKey && !isOnNode && !this.isSpaceHeld) {
+      const point = this.toContainerPoint(event);
+      if (point) {
+        this.marqueeStart = point;
+        this.marquee.set({ ...point, width: 0, height: 0 });
+        event.preventDefault();
+      }
+      return;
+    }
+
     // Pan with: middle mouse button (1), spacebar + left click, or left click NOT on a node
     const canPan =
       event.button === 1 ||
@@ -296,6 +445,19 @@ export class CanvasComponent {
   }
 
   onMouseMove(event: MouseEvent): void {
+    if (this.marqueeStart) {
+      const point = this.toContainerPoint(event);
+      if (point) {
+        this.marquee.set({
+          x: Math.min(this.marqueeStart.x, point.x),
+          y: Math.min(this.marqueeStart.y, point.y),
+          width: Math.abs(point.x - this.marqueeStart.x),
+          height: Math.abs(point.y - this.marqueeStart.y),
+        });
+      }
+      return;
+    }
+
     if (!this.isPanning) return;
 
     const dx = event.clientX - this.lastMousePos.x;
@@ -310,6 +472,11 @@ export class CanvasComponent {
   }
 
   onMouseUp(event: MouseEvent): void {
+    if (this.marqueeStart) {
+      this.finishMarquee(event.ctrlKey || event.metaKey);
+      return;
+    }
+
     if (this.isPanning) {
       this.isPanning = false;
       this.updateCursor();
@@ -342,8 +509,65 @@ export class CanvasComponent {
     });
   }
 
-  onNodeClick(nodeId: string): void {
-    this.store.selectNode(nodeId);
+  /**
+   * Position of a mouse event relative to the canvas container
+   */
+  private toContainerPoint(event: MouseEvent): { x: number; y: number } | null {
+    const container = this.canvasContainer()?.nativeElement;
+    if (!container) return null;
+
+    const rect = container.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  }
+
+  /**
+   * Select every visible node the marquee touches
+   */
+  private finishMarquee(additive: boolean): void {
+    const rect = this.marquee();
+    const container = this.canvasContainer()?.nativeElement;
+    this.marqueeStart = null;
+    this.marquee.set(null);
+    if (!rect || !container) return;
+
+    // Tiny marquee is a plain click on empty canvas
+    if (rect.width < 4 && rect.height < 4) {
+      if (!additive) this.store.selectNode(null);
+      return;
+    }
+
+    // Convert the marquee to canvas coordinates (the layer is centered, then panned and scaled)
+    const view = this.store.view();
+    const toCanvas = (x: number, y: number) => ({
+      x: (x - container.clientWidth / 2 - view.panX) / view.scale,
+      y: (y - container.clientHeight / 2 - view.panY) / view.scale,
+    });
+    const topLeft = toCanvas(rect.x, rect.y);
+    const bottomRight = toCanvas(rect.x + rect.width, rect.y + rect.height);
+
+    const selectedIds = this.store
+      .visibleNodes()
+      .filter((node) => {
+        const position = this.store.getNodePosition(node.id);
+        const size = this.store.getNodeSize(node.id);
+        return (
+          position.x < bottomRight.x &&
+          position.x + size.width > topLeft.x &&
+          position.y < bottomRight.y &&
+          position.y + size.height > topLeft.y
+        );
+      })
+      .map((node) => node.id);
+
+    this.store.selectNodes(selectedIds, additive);
+  }
+
+  onNodeClick(event: { nodeId: string; additive: boolean }): void {
+    if (event.additive) {
+      this.store.toggleNodeSelection(event.nodeId);
+    } else {
+      this.store.selectNode(event.nodeId);
+    }
   }
 
   onNodeDblClick(nodeId: string): void {
@@ -351,7 +575,35 @@ export class CanvasComponent {
   }
 
   onNodePositionChange(event: { nodeId: string; position: { x: number; y: number } }): void {
-    this.store.setNodeOffset(event.nodeId, event.position);
+    // Dragging a node of a multi-selection moves every selected branch
+    const roots = this.store.getDragRoots(event.nodeId);
+
+    // Dropping onto another node moves the branch under it
+    const dropTargetId = this.store.dropTargetId();
+    if (dropTargetId) {
+      this.store.reparentNodes(roots, dropTargetId);
+      return;
+    }
+
+    // Auto layout owns node positions - a drop between siblings reorders, anything else snaps back
+    if (this.store.layoutMode() === 'auto') {
+      const target = this.store.reorderTarget();
+      if (target?.nodeId === event.nodeId) {
+        this.store.reorderNode(event.nodeId, target.index);
+      }
+      return;
+    }
+
+    if (roots.length > 1) {
+      const current = this.store.getNodePosition(event.nodeId);
+      this.store.moveNodesBy(roots, {
+        x: event.position.x - current.x,
+        y: event.position.y - current.y,
+      });
+      return;
+    }
+
+    this.store.setNodePosition(event.nodeId, event.position);
   }
 
   onNodeTextChange(event: { nodeId: string; text: string }): void {
@@ -363,6 +615,14 @@ export class CanvasComponent {
     this.store.deleteNode(nodeId);
   }
 
+  toggleExpanded(nodeId: string): void {
+    this.store.toggleExpanded(nodeId);
+  }
+
+  private isPinned(node: MindMapNode): boolean {
+    return this.store.layoutMode() === 'freeform' && !!node.absolutePosition;
+  }
+
   addChildNode(parentId: string): void {
     const parent = this.store.nodes()[parentId];
     if (!parent) return;
@@ -386,12 +646,16 @@ export class CanvasComponent {
       updatedAt: new Date(),
     };
 
-    // Copy parent's manual offset if it exists
-    if (parent.manualOffset) {
+    // Copy parent's manual offset if it exists (pinned parents are followed automatically)
+    if (parent.manualOffset && !this.isPinned(parent)) {
       newNode.manualOffset = { ...parent.manualOffset };
     }
 
-    this.store.addNode(newNode);
+    // Reveal the branch so the new child is visible (undone together with the add)
+    this.store.batch(`Added a node under '${parent.text}'`, () => {
+      this.store.setExpanded(parentId, true);
+      this.store.addNode(newNode);
+    });
     this.store.startEditing(newNode.id);
   }
 
@@ -418,8 +682,8 @@ export class CanvasComponent {
       updatedAt: new Date(),
     };
 
-    // Copy parent's manual offset if it exists
-    if (parent.manualOffset) {
+    // Copy parent's manual offset if it exists (pinned parents are followed automatically)
+    if (parent.manualOffset && !this.isPinned(parent)) {
       newNode.manualOffset = { ...parent.manualOffset };
     }
 
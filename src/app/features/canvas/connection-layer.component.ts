@@ -4,8 +4,8 @@ import { MatButtonModule } from '@angular/material/button';
 import { MatIconModule } from '@angular/material/icon';
 import { MatTooltipModule } from '@angular/material/tooltip';
 import { MindMapStore } from '../../store/mind-map.store';
-import { Position } from '../../core/models/mind-map.model';
-import { LAYOUT_CONSTANTS } from '../../core/services/layout.service';
+import { COLOR_PALETTE, Position } from '../../core/models/mind-map.model';
+import { ConnectionAxis, LayoutService, NodeBox } from '../../core/services/layout.service';
 
 interface Connection {
   id: string;
@@ -17,25 +17,6 @@ interface Connection {
   midpoint: Position;
 }
 
-type AnchorEdge = 'left' | 'right' | 'top' | 'bottom';
-
-interface AnchorPoints {
-  parentAnchor: AnchorEdge;
-  childAnchor: AnchorEdge;
-}
-
-// Preset colors for the color palette
-const COLOR_PALETTE = [
-  '#ef4444', // red
-  '#f97316', // orange
-  '#eab308', // yellow
-  '#22c55e', // green
-  '#14b8a6', // teal
-  '#3b82f6', // blue
-  '#8b5cf6', // violet
-  '#ec4899', // pink
-];
-
 @Component({
   selector: 'app-connection-layer',
   standalone: true,
@@ -340,6 +321,7 @@ export class ConnectionLayerComponent {
   @ViewChild('menuTrigger') menuTrigger!: MatMenuTrigger;
 
   private store = inject(MindMapStore);
+  private layoutService = inject(LayoutService);
 
   readonly colorPalette = COLOR_PALETTE;
 
@@ -357,7 +339,10 @@ export class ConnectionLayerComponent {
     const nodes = this.store.nodes();
     const positions = this.store.nodePositions();
     const dragging = this.store.draggingState();
-    const nodesArray = Object.values(nodes);
+    const sizes = this.store.nodeSizes();
+    const axis = this.layoutService.getConnectionAxis(this.store.layoutStyle());
+    // Hidden children of collapsed nodes have no connection
+    const nodesArray = this.store.visibleNodes();
     const connections: Connection[] = [];
 
     // Create a set of all nodes that are moving (dragged node + all descendants)
@@ -392,7 +377,11 @@ export class ConnectionLayerComponent {
           const customColor = node.style?.connectionColor || node.style?.color;
           const dashed = node.style?.connectionDashed ?? false;
 
-          const pathData = this.createBezierPathData(parentPos, childPos);
+          const pathData = this.createBezierPathData(
+            { ...parentPos, ...this.layoutService.getNodeSize(nodes[node.parentId], sizes) },
+            { ...childPos, ...this.layoutService.getNodeSize(node, sizes) },
+            axis
+          );
 
           connections.push({
             id: `${node.parentId}-${node.id}`,
@@ -471,59 +460,7 @@ export class ConnectionLayerComponent {
     this.store.updateConnectionStyle(connection.nodeId, { connectionDashed: dashed });
   }
 
-  // =========== Layout & Path Calculation ===========
-
-  private getAnchorEdges(parentPos: Position, childPos: Position): AnchorPoints {
-    const nodeWidth = LAYOUT_CONSTANTS.NODE_WIDTH;
-    const nodeHeight = LAYOUT_CONSTANTS.NODE_HEIGHT;
-
-    const parentCenterX = parentPos.x + nodeWidth / 2;
-    const parentCenterY = parentPos.y + nodeHeight / 2;
-    const childCenterX = childPos.x + nodeWidth / 2;
-    const childCenterY = childPos.y + nodeHeight / 2;
-
-    const dx = childCenterX - parentCenterX;
-    const dy = childCenterY - parentCenterY;
-
-    if (Math.abs(dx) >= Math.abs(dy)) {
-      return dx >= 0
-        ? { parentAnchor: 'right', childAnchor: 'left' }
-        : { parentAnchor: 'left', childAnchor: 'right' };
-    } else {
-      return dy >= 0
-        ? { parentAnchor: 'bottom', childAnchor: 'top' }
-        : { parentAnchor: 'top', childAnchor: 'bottom' };
-    }
-  }
-
-  private getAnchorPoint(pos: Position, edge: AnchorEdge): Position {
-    const w = LAYOUT_CONSTANTS.NODE_WIDTH;
-    const h = LAYOUT_CONSTANTS.NODE_HEIGHT;
-
-    switch (edge) {
-      case 'right':
-        return { x: pos.x + w, y: pos.y + h / 2 };
-      case 'left':
-        return { x: pos.x, y: pos.y + h / 2 };
-      case 'top':
-        return { x: pos.x + w / 2, y: pos.y };
-      case 'bottom':
-        return { x: pos.x + w / 2, y: pos.y + h };
-    }
-  }
-
-  private getControlDirection(edge: AnchorEdge): { dx: number; dy: number } {
-    switch (edge) {
-      case 'right':
-        return { dx: 1, dy: 0 };
-      case 'left':
-        return { dx: -1, dy: 0 };
-      case 'top':
-        return { dx: 0, dy: -1 };
-      case 'bottom':
-        return { dx: 0, dy: 1 };
-    }
-  }
+  // =========== Path Calculation ===========
 
   /**
    * Calculate the midpoint of a cubic Bezier curve using De Casteljau's algorithm at t=0.5
@@ -557,41 +494,22 @@ export class ConnectionLayerComponent {
   }
 
   private createBezierPathData(
-    parentPos: Position,
-    childPos: Position
+    parent: NodeBox,
+    child: NodeBox,
+    axis: ConnectionAxis | null
   ): { path: string; midpoint: Position } {
     const offset = this.SVG_OFFSET;
+    const curve = this.layoutService.getConnectionCurve(parent, child, axis);
+    const [start, cp1, cp2, end] = [curve.start, curve.control1, curve.control2, curve.end].map(
+      (point) => ({ x: point.x + offset, y: point.y + offset })
+    );
 
-    const { parentAnchor, childAnchor } = this.getAnchorEdges(parentPos, childPos);
-
-    const startPoint = this.getAnchorPoint(parentPos, parentAnchor);
-    const endPoint = this.getAnchorPoint(childPos, childAnchor);
-
-    const startX = startPoint.x + offset;
-    const startY = startPoint.y + offset;
-    const endX = endPoint.x + offset;
-    const endY = endPoint.y + offset;
-
-    const distance = Math.sqrt(Math.pow(endX - startX, 2) + Math.pow(endY - startY, 2));
-    const controlOffset = Math.max(distance * 0.4, 40);
-
-    const startDir = this.getControlDirection(parentAnchor);
-    const endDir = this.getControlDirection(childAnchor);
-
-    const cp1X = startX + startDir.dx * controlOffset;
-    const cp1Y = startY + startDir.dy * controlOffset;
-    const cp2X = endX + endDir.dx * controlOffset;
-    const cp2Y = endY + endDir.dy * controlOffset;
-
-    const path = `M ${startX} ${startY} C ${cp1X} ${cp1Y}, ${cp2X} ${cp2Y}, ${endX} ${endY}`;
+    const path =
+      `M ${start.x} ${start.y} ` +
+      `C ${cp1.x} ${cp1.y}, ${cp2.x} ${cp2.y}, ${end.x} ${end.y}`;
 
     // Calculate midpoint using De Casteljau
-    const midpoint = this.getBezierMidpoint(
-      { x: startX, y: startY },
-      { x: cp1X, y: cp1Y },
-      { x: cp2X, y: cp2Y },
-      { x: endX, y: endY }
-    );
+    const midpoint = this.getBezierMidpoint(start, cp1, cp2, end);
 
     return { path, midpoint };
   }
@@ -0,0 +1,147 @@
+import { Component, computed, inject } from '@angular/core';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatMenuModule } from '@angular/material/menu';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { MindMapStore } from '../../store/mind-map.store';
+import { COLOR_PALETTE, NodeStyle } from '../../core/models/mind-map.model';
+
+const NODE_SHAPES: { value: NonNullable<NodeStyle['shape']>; label: string; icon: string }[] = [
+  { value: 'rounded', label: 'Rounded', icon: 'rounded_corner' },
+  { value: 'square', label: 'Square', icon: 'crop_square' },
+  { value: 'circle', label: 'Pill', icon: 'radio_button_unchecked' },
+];
+
+/**
+ * Bulk actions for a multi-selection: recolor, restyle and delete.
+ * Every action is recorded as a single undo step.
+ */
+@Component({
+  selector: 'app-selection-toolbar',
+  standalone: true,
+  imports: [MatButtonModule, MatIconModule, MatMenuModule, MatTooltipModule],
+  template: `
+    <div class="selection-toolbar" (mousedown)="$event.stopPropagation()">
+      <span class="selection-count">{{ selectedIds().length }} selected</span>
+
+      <button mat-icon-button [matMenuTriggerFor]="colorMenu" matTooltip="Color">
+        <mat-icon>format_color_fill</mat-icon>
+      </button>
+
+      <button mat-icon-button [matMenuTriggerFor]="shapeMenu" matTooltip="Shape">
+        <mat-icon>category</mat-icon>
+      </button>
+
+      <button
+        mat-icon-button
+        (click)="deleteSelected()"
+        [disabled]="!canDelete()"
+        matTooltip="Delete (Del)"
+      >
+        <mat-icon>delete</mat-icon>
+      </button>
+
+      <button mat-icon-button (click)="store.selectNode(null)" matTooltip="Clear selection (Esc)">
+        <mat-icon>close</mat-icon>
+      </button>
+    </div>
+
+    <mat-menu #colorMenu="matMenu">
+      <div class="color-palette" (click)="$event.stopPropagation()">
+        @for (color of colorPalette; track color) {
+          <button
+            class="color-swatch"
+            [style.background-color]="color"
+            (click)="setStyle({ color })"
+            [matTooltip]="color"
+          ></button>
+        }
+        <button class="color-swatch reset" (click)="setStyle({ color: undefined })" matTooltip="Reset to default">
+          <mat-icon>format_color_reset</mat-icon>
+        </button>
+      </div>
+    </mat-menu>
+
+    <mat-menu #shapeMenu="matMenu">
+      @for (shape of shapes; track shape.value) {
+        <button mat-menu-item (click)="setStyle({ shape: shape.value })">
+          <mat-icon>{{ shape.icon }}</mat-icon>
+          <span>{{ shape.label }}</span>
+        </button>
+      }
+    </mat-menu>
+  `,
+  styles: `
+    .selection-toolbar {
+      display: flex;
+      align-items: center;
+      gap: 4px;
+      padding: 4px 8px 4px 16px;
+      background: var(--node-bg);
+      border: 1px solid var(--node-border);
+      border-radius: 24px;
+      box-shadow: 0 2px 8px var(--node-shadow);
+    }
+
+    .selection-count {
+      font-size: 14px;
+      font-weight: 500;
+      margin-right: 8px;
+    }
+
+    .color-palette {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 6px;
+      padding: 12px;
+      max-width: 170px;
+    }
+
+    .color-swatch {
+      width: 28px;
+      height: 28px;
+      border-radius: 4px;
+      border: 2px solid transparent;
+      cursor: pointer;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+
+      &:hover {
+        transform: scale(1.1);
+      }
+
+      &.reset {
+        background: var(--node-bg);
+        border: 1px dashed var(--node-border);
+
+        mat-icon {
+          font-size: 16px;
+          width: 16px;
+          height: 16px;
+        }
+      }
+    }
+  `,
+})
+export class SelectionToolbarComponent {
+  readonly store = inject(MindMapStore);
+
+  readonly colorPalette = COLOR_PALETTE;
+  readonly shapes = NODE_SHAPES;
+
+  readonly selectedIds = computed(() => [...this.store.selectedNodeIds()]);
+
+  // The root can be restyled but never deleted
+  readonly canDelete = computed(() =>
+    this.selectedIds().some((id) => this.store.nodes()[id]?.parentId)
+  );
+
+  setStyle(style: Partial<NodeStyle>): void {
+    this.store.updateNodesStyle(this.selectedIds(), style);
+  }
+
+  deleteSelected(): void {
+    this.store.deleteNodes(this.selectedIds());
+  }
+}
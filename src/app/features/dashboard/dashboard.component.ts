@@ -11,6 +11,7 @@ import { MatFormFieldModule } from '@angular/material/form-field';
 import { FormsModule } from '@angular/forms';
 import { AuthService } from '../../core/services/auth.service';
 import { MindMapService } from '../../core/services/mind-map.service';
+import { IMPORT_FILE_TYPES, MapImportService } from '../../core/services/map-import.service';
 import { MindMap } from '../../core/models/mind-map.model';
 import { DatePipe } from '@angular/common';
 
@@ -57,12 +58,35 @@ import { DatePipe } from '@angular/common';
       <main class="content">
         <div class="toolbar">
           <h2>My Mind Maps</h2>
-          <button mat-raised-button color="primary" (click)="showCreateDialog = true">
-            <mat-icon>add</mat-icon>
-            New Map
-          </button>
+          <div class="toolbar-actions">
+            <button mat-stroked-button (click)="fileInput.click()" [disabled]="isImporting()">
+              <mat-icon>upload_file</mat-icon>
+              Import
+            </button>
+            <input
+              #fileInput
+              type="file"
+              [accept]="importFileTypes"
+              hidden
+              (change)="importFile(fileInput)"
+            />
+            <button mat-raised-button color="primary" (click)="showCreateDialog = true">
+              <mat-icon>add</mat-icon>
+              New Map
+            </button>
+          </div>
         </div>
 
+        @if (importError()) {
+          <div class="import-error">
+            <mat-icon>error</mat-icon>
+            <span>{{ importError() }}</span>
+            <button mat-icon-button (click)="importError.set(null)">
+              <mat-icon>close</mat-icon>
+            </button>
+          </div>
+        }
+
         @if (showCreateDialog) {
           <mat-card class="create-dialog">
             <mat-card-content>
@@ -189,6 +213,26 @@ import { DatePipe } from '@angular/common';
       }
     }
 
+    .toolbar-actions {
+      display: flex;
+      gap: 12px;
+    }
+
+    .import-error {
+      display: flex;
+      align-items: center;
+      gap: 12px;
+      margin-bottom: 24px;
+      padding: 4px 4px 4px 16px;
+      border-radius: 8px;
+      border: 1px solid #f44336;
+      color: #f44336;
+
+      span {
+        flex: 1;
+      }
+    }
+
     .create-dialog {
       margin-bottom: 24px;
       max-width: 400px;
@@ -278,6 +322,7 @@ import { DatePipe } from '@angular/common';
 export class DashboardComponent {
   readonly authService = inject(AuthService);
   readonly mindMapService = inject(MindMapService);
+  private mapImportService = inject(MapImportService);
   private router = inject(Router);
   private sanitizer = inject(DomSanitizer);
 
@@ -285,6 +330,10 @@ export class DashboardComponent {
   newMapName = '';
   selectedMap: MindMap | null = null;
 
+  readonly importFileTypes = IMPORT_FILE_TYPES;
+  readonly isImporting = signal(false);
+  readonly importError = signal<string | null>(null);
+
   // Cache for sanitized SVGs to avoid re-sanitizing on every change detection
   private sanitizedCache = new Map<string, SafeHtml>();
 
@@ -311,6 +360,30 @@ export class DashboardComponent {
     }
   }
 
+  /**
+   * Create a new map from an exported file and open it
+   */
+  async importFile(input: HTMLInputElement): Promise<void> {
+    const user = this.authService.currentUser();
+    const file = input.files?.[0];
+    // Allow picking the same file again
+    input.value = '';
+    if (!user || !file) return;
+
+    this.isImporting.set(true);
+    this.importError.set(null);
+    try {
+      const map = await this.mapImportService.importFile(file, user.uid);
+      this.router.navigate(['/map', map.id]);
+    } catch (error) {
+      console.error('Failed to import map:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.importError.set(`Could not import "${file.name}": ${message}`);
+    } finally {
+      this.isImporting.set(false);
+    }
+  }
+
   openMap(map: MindMap): void {
     this.router.navigate(['/map', map.id]);
   }
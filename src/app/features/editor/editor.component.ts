@@ -1,27 +1,70 @@
-import { Component, OnInit, OnDestroy, inject, signal, effect } from '@angular/core';
+import { Component, OnInit, OnDestroy, inject, signal, effect, viewChild } from '@angular/core';
 import { ActivatedRoute, Router } from '@angular/router';
+import { DatePipe } from '@angular/common';
 import { MatButtonModule } from '@angular/material/button';
 import { MatIconModule } from '@angular/material/icon';
 import { MatToolbarModule } from '@angular/material/toolbar';
 import { MatMenuModule } from '@angular/material/menu';
 import { MatTooltipModule } from '@angular/material/tooltip';
+import { MatButtonToggleModule } from '@angular/material/button-toggle';
 import { MindMapStore } from '../../store/mind-map.store';
 import { MindMapService } from '../../core/services/mind-map.service';
 import { AuthService } from '../../core/services/auth.service';
 import { AutoSaveService } from '../../core/services/auto-save.service';
+import { VersionService } from '../../core/services/version.service';
+import { MapExportService } from '../../core/services/map-export.service';
+import { MapImageService } from '../../core/services/map-image.service';
+import { PdfExportOptions, PdfExportService } from '../../core/services/pdf-export.service';
 import { CanvasComponent } from '../canvas/canvas.component';
+import { HistoryPanelComponent } from './history-panel.component';
+import { SnapshotViewComponent } from '../versions/snapshot-view.component';
+import { VersionsPanelComponent } from '../versions/versions-panel.component';
+import { VersionCompareComponent } from '../versions/version-compare.component';
+import { LayoutStyle, MindMapVersion } from '../../core/models/mind-map.model';
 import { Subscription } from 'rxjs';
 
+const LAYOUT_STYLES: { value: LayoutStyle; label: string; icon: string }[] = [
+  { value: 'horizontal', label: 'Horizontal Tree', icon: 'account_tree' },
+  { value: 'balanced', label: 'Balanced', icon: 'device_hub' },
+  { value: 'vertical', label: 'Org Chart', icon: 'lan' },
+  { value: 'radial', label: 'Radial', icon: 'hub' },
+];
+
+const MARKDOWN_EXPORTS: { headingDepth: number; label: string }[] = [
+  { headingDepth: 0, label: 'Nested List' },
+  { headingDepth: 1, label: 'Title Heading + List' },
+  { headingDepth: 2, label: 'Headings for 2 Levels' },
+  { headingDepth: 3, label: 'Headings for 3 Levels' },
+];
+
+const HISTORY_DEPTHS: { depth: number; label: string }[] = [
+  { depth: 50, label: '50 Steps' },
+  { depth: 200, label: '200 Steps' },
+  { depth: 1000, label: '1000 Steps' },
+];
+
+const PNG_SCALES: { scale: number; label: string }[] = [
+  { scale: 1, label: 'Standard (1x)' },
+  { scale: 2, label: 'High Resolution (2x)' },
+  { scale: 3, label: 'Print Quality (3x)' },
+];
+
 @Component({
   selector: 'app-editor',
   standalone: true,
   imports: [
+    DatePipe,
     MatButtonModule,
     MatIconModule,
     MatToolbarModule,
     MatMenuModule,
     MatTooltipModule,
+    MatButtonToggleModule,
     CanvasComponent,
+    HistoryPanelComponent,
+    SnapshotViewComponent,
+    VersionsPanelComponent,
+    VersionCompareComponent,
   ],
   template: `
     <div class="editor">
@@ -38,6 +81,20 @@ import { Subscription } from 'rxjs';
 
         <span class="spacer"></span>
 
+        <mat-button-toggle-group
+          class="layout-mode-toggle"
+          hideSingleSelectionIndicator
+          [value]="store.layoutMode()"
+          (change)="store.setLayoutMode($event.value)"
+        >
+          <mat-button-toggle value="freeform" matTooltip="Freeform: nodes stay where you drop them">
+            <mat-icon>open_with</mat-icon>
+          </mat-button-toggle>
+          <mat-button-toggle value="auto" matTooltip="Auto layout: nodes snap into the tree">
+            <mat-icon>account_tree</mat-icon>
+          </mat-button-toggle>
+        </mat-button-toggle-group>
+
         <button
           mat-icon-button
           (click)="store.undo()"
@@ -56,6 +113,17 @@ import { Subscription } from 'rxjs';
           <mat-icon>redo</mat-icon>
         </button>
 
+        <app-history-panel />
+
+        <button
+          mat-icon-button
+          (click)="showVersions.set(!showVersions())"
+          [class.active]="showVersions()"
+          matTooltip="Versions"
+        >
+          <mat-icon>bookmarks</mat-icon>
+        </button>
+
         <button
           mat-icon-button
           (click)="forceSave()"
@@ -74,10 +142,119 @@ import { Subscription } from 'rxjs';
             <mat-icon>center_focus_strong</mat-icon>
             <span>Reset View</span>
           </button>
-          <button mat-menu-item (click)="exportAsJson()">
+          <button mat-menu-item [matMenuTriggerFor]="layoutMenu">
+            <mat-icon>schema</mat-icon>
+            <span>Layout</span>
+          </button>
+          <button mat-menu-item (click)="store.tidyUp()">
+            <mat-icon>auto_fix_high</mat-icon>
+            <span>Tidy Up Overlaps</span>
+          </button>
+          <button mat-menu-item [matMenuTriggerFor]="historyMenu">
+            <mat-icon>history</mat-icon>
+            <span>Undo History</span>
+          </button>
+          <button mat-menu-item [matMenuTriggerFor]="exportMenu">
             <mat-icon>download</mat-icon>
-            <span>Export as JSON</span>
+            <span>Export</span>
+          </button>
+        </mat-menu>
+
+        <mat-menu #exportMenu="matMenu">
+          <button mat-menu-item (click)="exportAsJson()">
+            <mat-icon>data_object</mat-icon>
+            <span>JSON</span>
           </button>
+          <button mat-menu-item [matMenuTriggerFor]="pngMenu">
+            <mat-icon>image</mat-icon>
+            <span>PNG Image</span>
+          </button>
+          <button mat-menu-item (click)="exportAsSvg()">
+            <mat-icon>polyline</mat-icon>
+            <span>SVG Image</span>
+          </button>
+          <button mat-menu-item [matMenuTriggerFor]="pdfMenu">
+            <mat-icon>picture_as_pdf</mat-icon>
+            <span>PDF</span>
+          </button>
+          <button mat-menu-item [matMenuTriggerFor]="markdownMenu">
+            <mat-icon>description</mat-icon>
+            <span>Markdown</span>
+          </button>
+          <button mat-menu-item (click)="exportAsFreeMind()">
+            <mat-icon>account_tree</mat-icon>
+            <span>FreeMind (.mm)</span>
+          </button>
+          <button mat-menu-item (click)="exportAsOpml()">
+            <mat-icon>format_list_bulleted</mat-icon>
+            <span>OPML</span>
+          </button>
+          <button mat-menu-item (click)="exportAsMermaid()">
+            <mat-icon>schema</mat-icon>
+            <span>Mermaid Mindmap</span>
+          </button>
+        </mat-menu>
+
+        <mat-menu #pngMenu="matMenu">
+          @for (option of pngScales; track option.scale) {
+            <button mat-menu-item (click)="exportAsPng(option.scale)">
+              {{ option.label }}
+            </button>
+          }
+          <!-- Keeps the menu open so a size can be picked afterwards -->
+          <button
+            mat-menu-item
+            (click)="$event.stopPropagation(); pngTransparent.set(!pngTransparent())"
+          >
+            <mat-icon>{{ pngTransparent() ? 'check_box' : 'check_box_outline_blank' }}</mat-icon>
+            <span>Transparent Background</span>
+          </button>
+        </mat-menu>
+
+        <mat-menu #pdfMenu="matMenu">
+          <button mat-menu-item (click)="exportAsPdf('fit')">Fit to One Page</button>
+          <button mat-menu-item (click)="exportAsPdf('tiled')">Tiled Pages at Full Size</button>
+          <!-- Options keep the menu open -->
+          <button
+            mat-menu-item
+            (click)="$event.stopPropagation(); pdfIncludeOutline.set(!pdfIncludeOutline())"
+          >
+            <mat-icon>{{ pdfIncludeOutline() ? 'check_box' : 'check_box_outline_blank' }}</mat-icon>
+            <span>Outline Appendix</span>
+          </button>
+          <button
+            mat-menu-item
+            (click)="$event.stopPropagation(); pdfLetterSize.set(!pdfLetterSize())"
+          >
+            <mat-icon>{{ pdfLetterSize() ? 'check_box' : 'check_box_outline_blank' }}</mat-icon>
+            <span>US Letter Paper</span>
+          </button>
+        </mat-menu>
+
+        <mat-menu #markdownMenu="matMenu">
+          @for (option of markdownExports; track option.headingDepth) {
+            <button mat-menu-item (click)="exportAsMarkdown(option.headingDepth)">
+              {{ option.label }}
+            </button>
+          }
+        </mat-menu>
+
+        <mat-menu #layoutMenu="matMenu">
+          @for (layout of layoutStyles; track layout.value) {
+            <button mat-menu-item (click)="store.setLayoutStyle(layout.value)">
+              <mat-icon>{{ store.layoutStyle() === layout.value ? 'check' : layout.icon }}</mat-icon>
+              <span>{{ layout.label }}</span>
+            </button>
+          }
+        </mat-menu>
+
+        <mat-menu #historyMenu="matMenu">
+          @for (option of historyDepths; track option.depth) {
+            <button mat-menu-item (click)="store.setHistoryDepth(option.depth)">
+              <mat-icon>{{ store.historyDepth() === option.depth ? 'check' : 'undo' }}</mat-icon>
+              <span>{{ option.label }}</span>
+            </button>
+          }
         </mat-menu>
       </mat-toolbar>
 
@@ -93,7 +270,60 @@ import { Subscription } from 'rxjs';
           <button mat-raised-button color="primary" (click)="goBack()">Go Back</button>
         </div>
       } @else {
-        <app-canvas />
+        <div class="editor-body">
+          @if (compareVersion(); as version) {
+            <app-version-compare
+              class="version-compare"
+              [baseVersion]="version"
+              (closed)="compareVersion.set(null)"
+            />
+          } @else if (previewVersion(); as version) {
+            <div class="version-preview">
+              <div class="preview-banner">
+                <mat-icon>visibility</mat-icon>
+                <span>
+                  Previewing "{{ version.name }}" from {{ version.createdAt | date: 'medium' }}
+                  (read-only)
+                </span>
+                <span class="spacer"></span>
+                <button mat-button (click)="openComparison(version)">
+                  <mat-icon>compare</mat-icon>
+                  Compare with Current
+                </button>
+                <button mat-button (click)="restoreVersion(version)">
+                  <mat-icon>restore</mat-icon>
+                  Restore
+                </button>
+                <button mat-button (click)="forkVersion(version)">
+                  <mat-icon>call_split</mat-icon>
+                  Copy to New Map
+                </button>
+                <button mat-icon-button (click)="previewVersion.set(null)" matTooltip="Close Preview">
+                  <mat-icon>close</mat-icon>
+                </button>
+              </div>
+              <app-snapshot-view
+                [nodes]="version.nodes"
+                [positions]="version.positions"
+                [sizes]="version.sizes"
+                [layoutStyle]="version.settings.layoutStyle ?? 'horizontal'"
+              />
+            </div>
+          } @else {
+            <app-canvas />
+          }
+
+          @if (showVersions()) {
+            <app-versions-panel
+              [activeVersionId]="(previewVersion() ?? compareVersion())?.id ?? null"
+              (closed)="closeVersions()"
+              (preview)="openPreview($event)"
+              (compare)="openComparison($event)"
+              (restore)="restoreVersion($event)"
+              (fork)="forkVersion($event)"
+            />
+          }
+        </div>
       }
     </div>
   `,
@@ -130,8 +360,56 @@ import { Subscription } from 'rxjs';
       flex: 1;
     }
 
+    .layout-mode-toggle {
+      margin-right: 8px;
+      height: 36px;
+      align-items: center;
+    }
+
+    .active {
+      color: var(--selection-color);
+    }
+
+    .editor-body {
+      flex: 1;
+      display: flex;
+      min-height: 0;
+    }
+
     app-canvas {
       flex: 1;
+      min-width: 0;
+    }
+
+    .version-compare {
+      flex: 1;
+      min-width: 0;
+    }
+
+    .version-preview {
+      flex: 1;
+      display: flex;
+      flex-direction: column;
+      min-width: 0;
+
+      app-snapshot-view {
+        flex: 1;
+        min-height: 0;
+      }
+    }
+
+    .preview-banner {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      padding: 4px 8px 4px 16px;
+      background: var(--node-bg);
+      border-bottom: 1px solid var(--node-border);
+      font-size: 14px;
+
+      mat-icon {
+        color: var(--selection-color);
+      }
     }
 
     .loading,
@@ -163,13 +441,36 @@ export class EditorComponent implements OnInit, OnDestroy {
   private mindMapService = inject(MindMapService);
   private authService = inject(AuthService);
   private autoSave = inject(AutoSaveService);
+  private versionService = inject(VersionService);
+  private mapExport = inject(MapExportService);
+  private mapImage = inject(MapImageService);
+  private pdfExport = inject(PdfExportService);
   private route = inject(ActivatedRoute);
   private router = inject(Router);
 
+  readonly layoutStyles = LAYOUT_STYLES;
+  readonly markdownExports = MARKDOWN_EXPORTS;
+  readonly historyDepths = HISTORY_DEPTHS;
+  readonly pngScales = PNG_SCALES;
+
   isLoading = signal(true);
   error = signal<string | null>(null);
 
+  showVersions = signal(false);
+  // Version shown read-only in place of the canvas
+  previewVersion = signal<MindMapVersion | null>(null);
+  // Version compared against the current map in place of the canvas
+  compareVersion = signal<MindMapVersion | null>(null);
+  // PNG export option (otherwise the theme's canvas color is used)
+  pngTransparent = signal(false);
+  // PDF export options (A4 paper unless US Letter is picked)
+  pdfIncludeOutline = signal(false);
+  pdfLetterSize = signal(false);
+
+  private versionsPanel = viewChild(VersionsPanelComponent);
+
   private subscription: Subscription | null = null;
+  private routeSubscription: Subscription | null = null;
 
   constructor() {
     // Watch for pending changes and trigger auto-save
@@ -181,13 +482,23 @@ export class EditorComponent implements OnInit, OnDestroy {
   }
 
   ngOnInit(): void {
-    const mapId = this.route.snapshot.paramMap.get('id');
-    if (mapId) {
-      this.loadMap(mapId);
-    } else {
-      this.error.set('No map ID provided');
-      this.isLoading.set(false);
-    }
+    // Reload when navigating from one map to another (e.g. after copying a version)
+    this.routeSubscription = this.route.paramMap.subscribe((params) => {
+      const mapId = params.get('id');
+      this.subscription?.unsubscribe();
+      this.previewVersion.set(null);
+      this.compareVersion.set(null);
+      this.showVersions.set(false);
+
+      if (mapId) {
+        this.isLoading.set(true);
+        this.error.set(null);
+        this.loadMap(mapId);
+      } else {
+        this.error.set('No map ID provided');
+        this.isLoading.set(false);
+      }
+    });
   }
 
   async ngOnDestroy(): Promise<void> {
@@ -198,6 +509,7 @@ export class EditorComponent implements OnInit, OnDestroy {
 
     this.autoSave.disable();
     this.subscription?.unsubscribe();
+    this.routeSubscription?.unsubscribe();
     this.store.clearMap();
   }
 
@@ -243,6 +555,59 @@ export class EditorComponent implements OnInit, OnDestroy {
     await this.autoSave.saveNow();
   }
 
+  closeVersions(): void {
+    this.showVersions.set(false);
+    this.previewVersion.set(null);
+    this.compareVersion.set(null);
+  }
+
+  openPreview(version: MindMapVersion): void {
+    this.compareVersion.set(null);
+    this.previewVersion.set(version);
+  }
+
+  openComparison(version: MindMapVersion): void {
+    this.previewVersion.set(null);
+    this.compareVersion.set(version);
+  }
+
+  /**
+   * Replace the map with a saved version (the current state is kept as a version first)
+   */
+  async restoreVersion(version: MindMapVersion): Promise<void> {
+    const message = `Restore "${version.name}"? The current map will be saved as a version first.`;
+    if (!confirm(message)) return;
+
+    try {
+      await this.autoSave.saveNow();
+      const map = await this.versionService.restoreVersion(version);
+      this.store.loadMap(map, version.nodes);
+      this.previewVersion.set(null);
+      this.compareVersion.set(null);
+      await this.versionsPanel()?.load();
+    } catch (err) {
+      console.error('Failed to restore version:', err);
+    }
+  }
+
+  /**
+   * Copy a saved version into a new map and open it
+   */
+  async forkVersion(version: MindMapVersion): Promise<void> {
+    try {
+      if (this.autoSave.hasPendingChanges()) {
+        await this.autoSave.saveNow();
+      }
+      const map = await this.versionService.forkVersion(
+        version,
+        `${version.mapName} (${version.name})`
+      );
+      this.router.navigate(['/map', map.id]);
+    } catch (err) {
+      console.error('Failed to copy version:', err);
+    }
+  }
+
   async goBack(): Promise<void> {
     // Save before navigating away
     if (this.autoSave.hasPendingChanges()) {
@@ -262,12 +627,86 @@ export class EditorComponent implements OnInit, OnDestroy {
       nodes: Object.values(nodes),
     };
 
-    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${map.name.replace(/\s+/g, '_')}.json`;
-    a.click();
-    URL.revokeObjectURL(url);
+    this.mapExport.downloadFile(
+      JSON.stringify(data, null, 2),
+      this.mapExport.getFileName(map, 'json'),
+      'application/json'
+    );
+  }
+
+  async exportAsPng(scale: number): Promise<void> {
+    const map = this.store.currentMap();
+    if (!map) return;
+
+    try {
+      const png = await this.mapImage.toPng({ scale, transparent: this.pngTransparent() });
+      this.mapExport.downloadFile(png, this.mapExport.getFileName(map, 'png'), 'image/png');
+    } catch (error) {
+      console.error('Failed to export PNG:', error);
+    }
+  }
+
+  async exportAsSvg(): Promise<void> {
+    const map = this.store.currentMap();
+    if (!map) return;
+
+    try {
+      const svg = await this.mapImage.toSvg();
+      this.mapExport.downloadFile(svg, this.mapExport.getFileName(map, 'svg'), 'image/svg+xml');
+    } catch (error) {
+      console.error('Failed to export SVG:', error);
+    }
+  }
+
+  async exportAsPdf(layout: PdfExportOptions['layout']): Promise<void> {
+    const map = this.store.currentMap();
+    if (!map) return;
+
+    try {
+      const pdf = await this.pdfExport.toPdf({
+        layout,
+        pageSize: this.pdfLetterSize() ? 'letter' : 'a4',
+        includeOutline: this.pdfIncludeOutline(),
+      });
+      this.mapExport.downloadFile(pdf, this.mapExport.getFileName(map, 'pdf'), 'application/pdf');
+    } catch (error) {
+      console.error('Failed to export PDF:', error);
+    }
+  }
+
+  exportAsMermaid(): void {
+    const map = this.store.currentMap();
+    if (!map) return;
+
+    const mermaid = this.mapExport.toMermaid(map, this.store.nodes());
+    this.mapExport.downloadFile(mermaid, this.mapExport.getFileName(map, 'mmd'), 'text/plain');
+  }
+
+  exportAsMarkdown(headingDepth: number): void {
+    const map = this.store.currentMap();
+    if (!map) return;
+
+    const markdown = this.mapExport.toMarkdown(map, this.store.nodes(), { headingDepth });
+    this.mapExport.downloadFile(markdown, this.mapExport.getFileName(map, 'md'), 'text/markdown');
+  }
+
+  exportAsFreeMind(): void {
+    const map = this.store.currentMap();
+    if (!map) return;
+
+    const xml = this.mapExport.toFreeMind(map, this.store.nodes(), this.store.nodePositions());
+    this.mapExport.downloadFile(
+      xml,
+      this.mapExport.getFileName(map, 'mm'),
+      'application/x-freemind'
+    );
+  }
+
+  exportAsOpml(): void {
+    const map = this.store.currentMap();
+    if (!map) return;
+
+    const opml = this.mapExport.toOpml(map, this.store.nodes());
+    this.mapExport.downloadFile(opml, this.mapExport.getFileName(map, 'opml'), 'text/x-opml');
   }
 }
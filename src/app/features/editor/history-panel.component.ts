@@ -0,0 +1,182 @@
+import { Component, computed, inject } from '@angular/core';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatMenuModule } from '@angular/material/menu';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { MindMapStore } from '../../store/mind-map.store';
+import { MindMapAction } from '../../core/models/mind-map.model';
+
+interface HistoryEntry {
+  // Number of applied history entries after jumping to this entry
+  target: number;
+  description: string;
+  icon: string;
+  undone: boolean;
+  current: boolean;
+}
+
+const MAX_TEXT_LENGTH = 30;
+
+/**
+ * Toolbar menu listing the session's undo/redo history.
+ * Clicking an entry undoes or redoes until that entry is the latest applied one.
+ */
+@Component({
+  selector: 'app-history-panel',
+  standalone: true,
+  imports: [MatButtonModule, MatIconModule, MatMenuModule, MatTooltipModule],
+  template: `
+    <button
+      mat-icon-button
+      [matMenuTriggerFor]="historyMenu"
+      [disabled]="!store.canUndo() && !store.canRedo()"
+      matTooltip="History"
+    >
+      <mat-icon>history</mat-icon>
+    </button>
+
+    <mat-menu #historyMenu="matMenu" class="history-menu">
+      @for (entry of entries(); track entry.target) {
+        <button
+          mat-menu-item
+          class="history-entry"
+          [class.undone]="entry.undone"
+          [class.current]="entry.current"
+          (click)="store.goToHistory(entry.target)"
+        >
+          <mat-icon>{{ entry.current ? 'check' : entry.icon }}</mat-icon>
+          <span>{{ entry.description }}</span>
+        </button>
+      }
+    </mat-menu>
+  `,
+  styles: `
+    .history-entry {
+      &.undone {
+        opacity: 0.5;
+      }
+
+      &.current {
+        font-weight: 600;
+      }
+    }
+  `,
+})
+export class HistoryPanelComponent {
+  readonly store = inject(MindMapStore);
+
+  /**
+   * Newest first: undone entries (redo stack), then applied entries, then the session start
+   */
+  readonly entries = computed<HistoryEntry[]>(() => {
+    const { past, future } = this.store.history();
+    const current = past.length;
+
+    const undone = future.map((action, i) => this.toEntry(action, current + i + 1, current));
+    const applied = past.map((action, i) => this.toEntry(action, i + 1, current));
+
+    return [
+      ...undone.reverse(),
+      ...applied.reverse(),
+      {
+        target: 0,
+        description: 'Opened map',
+        icon: 'folder_open',
+        undone: false,
+        current: current === 0,
+      },
+    ];
+  });
+
+  private toEntry(action: MindMapAction, target: number, current: number): HistoryEntry {
+    return {
+      target,
+      description: this.describe(action),
+      icon: this.getIcon(action),
+      undone: target > current,
+      current: target === current,
+    };
+  }
+
+  private describe(action: MindMapAction): string {
+    switch (action.type) {
+      case 'ADD_NODE':
+        return `Added ${this.quote(action.node.id, action.node.text)}`;
+      case 'DELETE_NODE': {
+        const children = action.descendants.length;
+        const suffix = children > 0 ? ` and ${children} below it` : '';
+        return `Deleted ${this.quote(action.node.id, action.node.text)}${suffix}`;
+      }
+      case 'UPDATE_NODE': {
+        const node = this.quote(action.nodeId);
+        if ('text' in action.after) {
+          const from = this.truncate(action.before.text ?? '');
+          return `Renamed '${from}' to '${this.truncate(action.after.text ?? '')}'`;
+        }
+        if ('isExpanded' in action.after) {
+          return `${action.after.isExpanded === false ? 'Collapsed' : 'Expanded'} ${node}`;
+        }
+        if ('style' in action.after) {
+          const colorChanged = action.after.style?.color !== action.before.style?.color;
+          return `${colorChanged ? 'Recolored' : 'Restyled'} ${node}`;
+        }
+        return `Edited ${node}`;
+      }
+      case 'SET_OFFSET':
+        return action.to
+          ? `Moved ${this.quote(action.nodeId)}${action.descendantOffsets ? ' branch' : ''}`
+          : `Reset position of ${this.quote(action.nodeId)}`;
+      case 'SET_POSITION': {
+        const isBranch = Object.keys(action.positions.new).length > 1;
+        return `Moved ${this.quote(action.nodeId)}${isBranch ? ' branch' : ''}`;
+      }
+      case 'REORDER_NODE':
+        return `Reordered ${this.quote(action.nodeId)}`;
+      case 'REPARENT_NODE':
+        return `Moved ${this.quote(action.nodeId)} under ${this.quote(action.toParentId)}`;
+      case 'SET_LAYOUT_MODE':
+        return action.to === 'auto' ? 'Switched to auto layout' : 'Switched to freeform layout';
+      case 'TIDY_UP': {
+        const count = Object.keys(action.placements.new).length;
+        return `Tidied up ${count} ${count === 1 ? 'node' : 'nodes'}`;
+      }
+      case 'BATCH':
+        return action.label;
+    }
+  }
+
+  private getIcon(action: MindMapAction): string {
+    switch (action.type) {
+      case 'ADD_NODE':
+        return 'add';
+      case 'DELETE_NODE':
+        return 'delete';
+      case 'UPDATE_NODE':
+        return 'text' in action.after ? 'edit' : 'palette';
+      case 'SET_OFFSET':
+      case 'SET_POSITION':
+      case 'REPARENT_NODE':
+        return 'open_with';
+      case 'REORDER_NODE':
+        return 'swap_vert';
+      case 'SET_LAYOUT_MODE':
+        return 'account_tree';
+      case 'TIDY_UP':
+        return 'auto_fix_high';
+      case 'BATCH':
+        return 'layers';
+    }
+  }
+
+  /**
+   * Quoted node text, preferring the node's current text (falls back for deleted nodes)
+   */
+  private quote(nodeId: string, fallback = 'node'): string {
+    const text = this.store.nodes()[nodeId]?.text ?? fallback;
+    return `'${this.truncate(text)}'`;
+  }
+
+  private truncate(text: string): string {
+    return text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH - 1)}…` : text;
+  }
+}
@@ -1,6 +1,8 @@
 import {
   Component,
+  DestroyRef,
   ElementRef,
+  afterNextRender,
   computed,
   effect,
   inject,
@@ -31,16 +33,26 @@ import { MindMapStore } from '../../store/mind-map.store';
       (cdkDragEnded)="onDragEnded($event)"
     >
       <div
+        #nodeElement
         class="node"
         cdkDragHandle
         [class.selected]="isSelected()"
         [class.editing]="isEditing()"
+        [class.drop-target]="isDropTarget()"
         [class.root]="!node().parentId"
+        [class.shape-square]="node().style?.shape === 'square'"
+        [class.shape-circle]="node().style?.shape === 'circle'"
         [class.has-offset]="node().manualOffset"
         [style.background-color]="nodeColor()"
+        [matTooltip]="node().note ?? ''"
+        matTooltipShowDelay="500"
         (click)="onClick($event)"
         (dblclick)="onDblClick($event)"
       >
+        @if (node().style?.icon; as icon) {
+          <mat-icon class="node-icon">{{ icon }}</mat-icon>
+        }
+
         @if (isEditing()) {
           <input
             #textInput
@@ -63,8 +75,23 @@ import { MindMapStore } from '../../store/mind-map.store';
         }
       </div>
 
+      <!-- Collapse/expand toggle (shows hidden descendant count when collapsed) -->
+      @if (hasChildren()) {
+        <button
+          class="collapse-toggle"
+          [class.collapsed]="isCollapsed()"
+          [class.toggle-left]="toggleSide() === 'left'"
+          [class.toggle-bottom]="toggleSide() === 'bottom'"
+          [matTooltip]="isCollapsed() ? 'Expand (+)' : 'Collapse (-)'"
+          (mousedown)="$event.stopPropagation()"
+          (click)="onToggleExpanded($event)"
+        >
+          {{ isCollapsed() ? hiddenCount() : '−' }}
+        </button>
+      }
+
       <!-- Add child button -->
-      @if (isSelected()) {
+      @if (showActions()) {
         <button
           class="add-btn add-child"
           mat-mini-fab
@@ -78,7 +105,7 @@ import { MindMapStore } from '../../store/mind-map.store';
       }
 
       <!-- Add sibling button (only for non-root) -->
-      @if (isSelected() && node().parentId) {
+      @if (showActions() && node().parentId) {
         <button
           class="add-btn add-sibling"
           mat-mini-fab
@@ -92,7 +119,7 @@ import { MindMapStore } from '../../store/mind-map.store';
       }
 
       <!-- Delete button (only for non-root) -->
-      @if (isSelected() && node().parentId) {
+      @if (showActions() && node().parentId) {
         <button
           class="action-btn delete-btn"
           mat-mini-fab
@@ -106,7 +133,7 @@ import { MindMapStore } from '../../store/mind-map.store';
       }
 
       <!-- Edit/Rename button -->
-      @if (isSelected() && !isEditing()) {
+      @if (showActions() && !isEditing()) {
         <button
           class="action-btn edit-btn"
           mat-mini-fab
@@ -165,6 +192,12 @@ import { MindMapStore } from '../../store/mind-map.store';
         cursor: text;
       }
 
+      &.drop-target {
+        border-style: dashed;
+        border-color: var(--selection-color);
+        box-shadow: 0 0 0 6px rgba(124, 77, 255, 0.25);
+      }
+
       &.root {
         font-weight: 600;
         font-size: 16px;
@@ -176,6 +209,22 @@ import { MindMapStore } from '../../store/mind-map.store';
         // Visual indicator that node has been manually positioned
         border-style: dashed;
       }
+
+      &.shape-square {
+        border-radius: 2px;
+      }
+
+      &.shape-circle {
+        border-radius: 999px;
+        padding: 12px 20px;
+      }
+    }
+
+    .node-icon {
+      flex-shrink: 0;
+      font-size: 18px;
+      width: 18px;
+      height: 18px;
     }
 
     .node-text {
@@ -204,6 +253,49 @@ import { MindMapStore } from '../../store/mind-map.store';
       }
     }
 
+    .collapse-toggle {
+      position: absolute;
+      z-index: 5;
+      top: 50%;
+      right: -10px;
+      transform: translateY(-50%);
+      min-width: 20px;
+      height: 20px;
+      padding: 0 5px;
+      border-radius: 10px;
+      border: 1px solid var(--node-border);
+      background: var(--node-bg);
+      color: var(--connection-color);
+      font-size: 11px;
+      font-weight: 600;
+      line-height: 18px;
+      cursor: pointer;
+      box-sizing: border-box;
+
+      &:hover {
+        border-color: var(--selection-color);
+      }
+
+      &.collapsed {
+        background: var(--selection-color);
+        border-color: var(--selection-color);
+        color: white;
+      }
+
+      &.toggle-left {
+        right: auto;
+        left: -10px;
+      }
+
+      &.toggle-bottom {
+        top: auto;
+        right: auto;
+        bottom: -10px;
+        left: 50%;
+        transform: translateX(-50%);
+      }
+    }
+
     .add-btn,
     .action-btn {
       position: absolute;
@@ -251,20 +343,23 @@ import { MindMapStore } from '../../store/mind-map.store';
 })
 export class NodeComponent {
   private store = inject(MindMapStore);
+  private destroyRef = inject(DestroyRef);
 
   readonly node = input.required<MindMapNode>();
   readonly isSelected = input(false);
   readonly isEditing = input(false);
 
-  readonly nodeClick = output<string>();
+  readonly nodeClick = output<{ nodeId: string; additive: boolean }>();
   readonly nodeDblClick = output<string>();
   readonly nodePositionChange = output<{ nodeId: string; position: Position }>();
   readonly nodeTextChange = output<{ nodeId: string; text: string }>();
   readonly addChildRequest = output<string>();
   readonly addSiblingRequest = output<string>();
   readonly deleteRequest = output<string>();
+  readonly toggleExpandedRequest = output<string>();
 
   private textInput = viewChild<ElementRef<HTMLInputElement>>('textInput');
+  private nodeElement = viewChild<ElementRef<HTMLDivElement>>('nodeElement');
 
   /**
    * Get the final position from the store's computed positions
@@ -278,6 +373,34 @@ export class NodeComponent {
     return style?.color || 'var(--node-bg)';
   });
 
+  readonly hasChildren = computed(() => this.node().childrenIds.length > 0);
+  readonly isCollapsed = computed(() => this.node().isExpanded === false);
+  readonly isDropTarget = computed(() => this.store.dropTargetId() === this.node().id);
+
+  // Per-node actions only make sense for a single selected node
+  readonly showActions = computed(() => this.isSelected() && !this.store.hasMultiSelection());
+
+  /**
+   * Number of descendants hidden inside this collapsed branch
+   */
+  readonly hiddenCount = computed(() =>
+    this.isCollapsed() ? this.store.getDescendantIdsPublic(this.node().id).length : 0
+  );
+
+  /**
+   * Edge the collapse toggle sits on: the side the children grow towards
+   */
+  readonly toggleSide = computed<'left' | 'right' | 'bottom'>(() => {
+    const style = this.store.layoutStyle();
+    if (style === 'vertical') return 'bottom';
+
+    if (style === 'balanced' && this.node().parentId) {
+      const size = this.store.getNodeSize(this.node().id);
+      return this.position().x + size.width / 2 < 0 ? 'left' : 'right';
+    }
+    return 'right';
+  });
+
   /**
    * Compute drag offset for descendant nodes during parent drag.
    * Returns the delta to apply as a CSS transform if this node is being dragged along.
@@ -286,7 +409,7 @@ export class NodeComponent {
     const dragging = this.store.draggingState();
     if (!dragging) return null;
 
-    // Check if this node is a descendant of the dragged node
+    // Check if this node moves along with the dragged node
     if (dragging.descendantIds.includes(this.node().id)) {
       return dragging.delta;
     }
@@ -294,6 +417,22 @@ export class NodeComponent {
   });
 
   constructor() {
+    // Report the rendered size to the store so layout and connections use real dimensions
+    afterNextRender(() => {
+      const element = this.nodeElement()?.nativeElement;
+      if (!element) return;
+
+      // offsetWidth/offsetHeight are unaffected by the canvas zoom transform
+      const observer = new ResizeObserver(() => {
+        this.store.setNodeSize(this.node().id, {
+          width: element.offsetWidth,
+          height: element.offsetHeight,
+        });
+      });
+      observer.observe(element);
+      this.destroyRef.onDestroy(() => observer.disconnect());
+    });
+
     // Focus input when editing starts
     effect(() => {
       if (this.isEditing()) {
@@ -310,7 +449,10 @@ export class NodeComponent {
 
   onClick(event: MouseEvent): void {
     event.stopPropagation();
-    this.nodeClick.emit(this.node().id);
+    this.nodeClick.emit({
+      nodeId: this.node().id,
+      additive: event.ctrlKey || event.metaKey || event.shiftKey,
+    });
   }
 
   onDblClick(event: MouseEvent): void {
@@ -322,8 +464,8 @@ export class NodeComponent {
   private dragDescendantIds: string[] = [];
 
   onDragStarted(): void {
-    // Compute descendants once at drag start
-    this.dragDescendantIds = this.store.getDescendantIdsPublic(this.node().id);
+    // Compute the nodes moving along (descendants and other selected branches) once at drag start
+    this.dragDescendantIds = this.store.getDragGroupIds(this.node().id);
     
     // Initialize drag state for live connection updates
     this.store.setDraggingState({
@@ -340,6 +482,11 @@ export class NodeComponent {
       delta: event.distance,
       descendantIds: this.dragDescendantIds,
     });
+
+    // Hovering another node moves the branch under it; in auto layout,
+    // dragging along the siblings picks a new position among them
+    this.store.updateDropTarget(this.node().id, event.distance);
+    this.store.updateReorderTarget(this.node().id, event.distance);
   }
 
   onDragEnded(event: CdkDragEnd): void {
@@ -369,6 +516,8 @@ export class NodeComponent {
 
     // Reset the drag transform
     event.source.reset();
+    this.store.clearDropTarget();
+    this.store.clearReorderTarget();
   }
 
   onBlur(event: FocusEvent): void {
@@ -414,6 +563,11 @@ export class NodeComponent {
     this.deleteRequest.emit(this.node().id);
   }
 
+  onToggleExpanded(event: MouseEvent): void {
+    event.stopPropagation();
+    this.toggleExpandedRequest.emit(this.node().id);
+  }
+
   onEdit(event: MouseEvent): void {
     event.stopPropagation();
     this.nodeDblClick.emit(this.node().id);
@@ -0,0 +1,322 @@
+import { Component, computed, inject, input } from '@angular/core';
+import { LayoutService } from '../../core/services/layout.service';
+import { PreviewGeneratorService } from '../../core/services/preview-generator.service';
+import { VersionService } from '../../core/services/version.service';
+import {
+  LayoutStyle,
+  MindMapNode,
+  NodeChange,
+  NodeChangeKind,
+  Position,
+  Size,
+} from '../../core/models/mind-map.model';
+
+interface SnapshotBox {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  text: string;
+  color: string;
+  rx: number;
+  isRoot: boolean;
+  kinds: NodeChangeKind[];
+  title: string;
+}
+
+interface SnapshotConnection {
+  id: string;
+  path: string;
+  color: string;
+  dashed: boolean;
+  kinds: NodeChangeKind[];
+}
+
+const PADDING = 40;
+// Rough width of a character at the node font size, used to clip long labels
+const CHAR_WIDTH = 8;
+const BADGE_RADIUS = 9;
+
+/**
+ * Read-only drawing of a map snapshot (nodes at their saved positions),
+ * scaled to fit the available space. Optionally marks the changes from a diff.
+ */
+@Component({
+  selector: 'app-snapshot-view',
+  standalone: true,
+  template: `
+    <svg class="snapshot" [attr.viewBox]="viewBox()" preserveAspectRatio="xMidYMid meet">
+      @for (connection of connections(); track connection.id) {
+        <path
+          class="snapshot-connection"
+          [class.added]="connection.kinds.includes('added')"
+          [class.deleted]="connection.kinds.includes('deleted')"
+          [attr.d]="connection.path"
+          [attr.stroke]="connection.color"
+          [attr.stroke-dasharray]="connection.dashed ? '6 4' : null"
+          stroke-width="2"
+          fill="none"
+        />
+      }
+      @for (box of boxes(); track box.id) {
+        <g
+          class="snapshot-node"
+          [class.root]="box.isRoot"
+          [class.added]="box.kinds.includes('added')"
+          [class.deleted]="box.kinds.includes('deleted')"
+          [class.moved]="box.kinds.includes('moved')"
+          [class.renamed]="box.kinds.includes('renamed')"
+          [class.highlighted]="box.id === highlightedNodeId()"
+        >
+          @if (box.title) {
+            <title>{{ box.title }}</title>
+          }
+          <rect
+            [attr.x]="box.x"
+            [attr.y]="box.y"
+            [attr.width]="box.width"
+            [attr.height]="box.height"
+            [attr.rx]="box.rx"
+            [attr.fill]="box.color"
+          />
+          <text
+            [attr.x]="box.x + box.width / 2"
+            [attr.y]="box.y + box.height / 2"
+            text-anchor="middle"
+            dominant-baseline="central"
+          >
+            {{ box.text }}
+          </text>
+          @for (kind of box.kinds; track kind; let i = $index) {
+            @if (kind === 'moved' || kind === 'renamed') {
+              <g class="change-badge" [class]="kind">
+                <circle
+                  [attr.cx]="box.x + box.width - i * badgeRadius * 2.4"
+                  [attr.cy]="box.y"
+                  [attr.r]="badgeRadius"
+                />
+                <text
+                  [attr.x]="box.x + box.width - i * badgeRadius * 2.4"
+                  [attr.y]="box.y"
+                  text-anchor="middle"
+                  dominant-baseline="central"
+                >
+                  {{ kind === 'moved' ? 'M' : 'R' }}
+                </text>
+              </g>
+            }
+          }
+        </g>
+      }
+    </svg>
+  `,
+  styles: `
+    :host {
+      display: block;
+      background: var(--canvas-bg);
+    }
+
+    .snapshot {
+      width: 100%;
+      height: 100%;
+    }
+
+    .snapshot-connection {
+      &.added {
+        stroke: #22c55e;
+      }
+
+      &.deleted {
+        stroke: #ef4444;
+        stroke-dasharray: 6 4;
+        opacity: 0.5;
+      }
+    }
+
+    .snapshot-node {
+      rect {
+        stroke: var(--node-border);
+        stroke-width: 2;
+      }
+
+      &.moved rect {
+        stroke: #f59e0b;
+        stroke-width: 3;
+      }
+
+      &.renamed rect {
+        stroke: #3b82f6;
+        stroke-width: 3;
+      }
+
+      &.added rect {
+        stroke: #22c55e;
+        stroke-width: 3;
+        fill: rgba(34, 197, 94, 0.2);
+      }
+
+      &.deleted {
+        opacity: 0.45;
+
+        rect {
+          stroke: #ef4444;
+          stroke-dasharray: 6 4;
+          fill: rgba(239, 68, 68, 0.15);
+        }
+
+        text {
+          text-decoration: line-through;
+        }
+      }
+
+      &.highlighted rect {
+        stroke: var(--selection-color);
+        stroke-width: 5;
+      }
+
+      text {
+        fill: var(--mat-app-text-color);
+        font-size: 14px;
+      }
+
+      &.root {
+        rect {
+          stroke: var(--selection-color);
+        }
+
+        text {
+          font-size: 16px;
+          font-weight: 600;
+        }
+      }
+    }
+
+    .change-badge {
+      circle {
+        stroke: none;
+      }
+
+      text {
+        fill: white;
+        font-size: 11px;
+        font-weight: 600;
+      }
+
+      &.moved circle {
+        fill: #f59e0b;
+      }
+
+      &.renamed circle {
+        fill: #3b82f6;
+      }
+    }
+  `,
+})
+export class SnapshotViewComponent {
+  private layoutService = inject(LayoutService);
+  private previewGenerator = inject(PreviewGeneratorService);
+  private versionService = inject(VersionService);
+
+  readonly nodes = input.required<MindMapNode[]>();
+  readonly positions = input.required<Record<string, Position>>();
+  readonly sizes = input<Record<string, Size>>({});
+  readonly layoutStyle = input<LayoutStyle>('horizontal');
+  // Diff to mark on the drawing (nodes that are not listed are unchanged)
+  readonly changes = input<NodeChange[]>([]);
+  readonly highlightedNodeId = input<string | null>(null);
+
+  readonly badgeRadius = BADGE_RADIUS;
+
+  private readonly changesById = computed(
+    () => new Map(this.changes().map((change) => [change.nodeId, change]))
+  );
+
+  // Nodes that were laid out and are outside collapsed branches (older versions also
+  // saved positions for collapsed descendants)
+  private readonly placedNodes = computed(() => {
+    const hidden = this.versionService.getHiddenNodeIds(this.nodes());
+    return this.nodes().filter((node) => this.positions()[node.id] && !hidden.has(node.id));
+  });
+
+  private readonly nodeSizes = computed(() => {
+    const sizes: Record<string, Size> = {};
+    this.placedNodes().forEach((node) => {
+      sizes[node.id] = this.layoutService.getNodeSize(node, this.sizes());
+    });
+    return sizes;
+  });
+
+  readonly boxes = computed<SnapshotBox[]>(() => {
+    const sizes = this.nodeSizes();
+    return this.placedNodes().map((node) => {
+      const { x, y } = this.positions()[node.id];
+      const { width, height } = sizes[node.id];
+      const change = this.changesById().get(node.id);
+      return {
+        id: node.id,
+        x,
+        y,
+        width,
+        height,
+        text: this.clip(node.text, width),
+        color: node.style?.color || 'var(--node-bg)',
+        rx: this.getRadius(node, height),
+        isRoot: !node.parentId,
+        kinds: change?.kinds ?? [],
+        title: change?.previousText !== undefined ? `Renamed from "${change.previousText}"` : '',
+      };
+    });
+  });
+
+  readonly connections = computed<SnapshotConnection[]>(() => {
+    const positions = this.positions();
+    const sizes = this.nodeSizes();
+    const axis = this.layoutService.getConnectionAxis(this.layoutStyle());
+
+    return this.placedNodes().flatMap((node) => {
+      const parentId = node.parentId;
+      if (!parentId || !positions[parentId]) return [];
+      return {
+        id: node.id,
+        path: this.previewGenerator.getConnectionPath(
+          positions[parentId],
+          sizes[parentId],
+          positions[node.id],
+          sizes[node.id],
+          axis
+        ),
+        color: node.style?.connectionColor || node.style?.color || 'var(--connection-color)',
+        dashed: node.style?.connectionDashed ?? false,
+        kinds: this.changesById().get(node.id)?.kinds ?? [],
+      };
+    });
+  });
+
+  readonly viewBox = computed(() => {
+    const boxes = this.boxes();
+    if (boxes.length === 0) return '0 0 100 100';
+
+    const minX = Math.min(...boxes.map((b) => b.x)) - PADDING;
+    const minY = Math.min(...boxes.map((b) => b.y)) - PADDING;
+    const maxX = Math.max(...boxes.map((b) => b.x + b.width)) + PADDING;
+    const maxY = Math.max(...boxes.map((b) => b.y + b.height)) + PADDING;
+    return `${minX} ${minY} ${maxX - minX} ${maxY - minY}`;
+  });
+
+  private getRadius(node: MindMapNode, height: number): number {
+    switch (node.style?.shape) {
+      case 'square':
+        return 2;
+      case 'circle':
+        return height / 2;
+      default:
+        return node.parentId ? 8 : 12;
+    }
+  }
+
+  private clip(text: string, width: number): string {
+    const maxChars = Math.max(Math.floor((width - 24) / CHAR_WIDTH), 1);
+    return text.length > maxChars ? `${text.slice(0, maxChars - 1)}…` : text;
+  }
+}
@@ -0,0 +1,328 @@
+import {
+  Component,
+  OnInit,
+  computed,
+  inject,
+  input,
+  linkedSignal,
+  output,
+  signal,
+} from '@angular/core';
+import { DatePipe } from '@angular/common';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatSelectModule } from '@angular/material/select';
+import { VersionService } from '../../core/services/version.service';
+import { MindMapVersion, NodeChange, NodeChangeKind } from '../../core/models/mind-map.model';
+import { SnapshotViewComponent } from './snapshot-view.component';
+
+// Option ID of the map as it is in the editor right now
+const CURRENT_ID = 'current';
+
+const CHANGE_ICONS: Record<NodeChangeKind, string> = {
+  added: 'add_circle',
+  deleted: 'remove_circle',
+  moved: 'open_with',
+  renamed: 'edit',
+};
+
+/**
+ * Overlay of two versions of the map: the newer one is drawn with added nodes in green,
+ * deleted nodes ghosted in red and moved or renamed nodes marked, next to a list of changes.
+ */
+@Component({
+  selector: 'app-version-compare',
+  standalone: true,
+  imports: [
+    DatePipe,
+    MatButtonModule,
+    MatIconModule,
+    MatTooltipModule,
+    MatFormFieldModule,
+    MatSelectModule,
+    SnapshotViewComponent,
+  ],
+  template: `
+    <div class="compare-view">
+      <div class="compare-header">
+        <mat-icon class="header-icon">compare</mat-icon>
+
+        <mat-form-field appearance="outline" subscriptSizing="dynamic" class="version-select">
+          <mat-label>From</mat-label>
+          <mat-select [value]="baseId()" (selectionChange)="baseId.set($event.value)">
+            @for (option of options(); track option.id) {
+              <mat-option [value]="option.id">
+                @if (option.id === currentId) {
+                  Current map
+                } @else {
+                  {{ option.name }} ({{ option.createdAt | date: 'short' }})
+                }
+              </mat-option>
+            }
+          </mat-select>
+        </mat-form-field>
+
+        <mat-icon>arrow_forward</mat-icon>
+
+        <mat-form-field appearance="outline" subscriptSizing="dynamic" class="version-select">
+          <mat-label>To</mat-label>
+          <mat-select [value]="targetId()" (selectionChange)="targetId.set($event.value)">
+            @for (option of options(); track option.id) {
+              <mat-option [value]="option.id">
+                @if (option.id === currentId) {
+                  Current map
+                } @else {
+                  {{ option.name }} ({{ option.createdAt | date: 'short' }})
+                }
+              </mat-option>
+            }
+          </mat-select>
+        </mat-form-field>
+
+        <span class="spacer"></span>
+
+        <button mat-icon-button (click)="closed.emit()" matTooltip="Close Comparison">
+          <mat-icon>close</mat-icon>
+        </button>
+      </div>
+
+      <div class="compare-body">
+        <app-snapshot-view
+          [nodes]="overlay().nodes"
+          [positions]="overlay().positions"
+          [sizes]="overlay().sizes"
+          [layoutStyle]="target().settings.layoutStyle ?? 'horizontal'"
+          [changes]="changes()"
+          [highlightedNodeId]="highlightedNodeId()"
+        />
+
+        <aside class="change-list">
+          <div class="change-summary">{{ summary() }}</div>
+          @for (change of changes(); track change.nodeId) {
+            <button
+              class="change-item"
+              [class.active]="change.nodeId === highlightedNodeId()"
+              (click)="toggleHighlight(change.nodeId)"
+            >
+              <mat-icon [class]="change.kinds[0]">{{ changeIcons[change.kinds[0]] }}</mat-icon>
+              <span class="change-text">{{ describe(change) }}</span>
+            </button>
+          } @empty {
+            <p class="hint">No changes between these versions.</p>
+          }
+        </aside>
+      </div>
+    </div>
+  `,
+  styles: `
+    .compare-view {
+      display: flex;
+      flex-direction: column;
+      height: 100%;
+    }
+
+    .compare-header {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      padding: 8px 8px 8px 16px;
+      background: var(--node-bg);
+      border-bottom: 1px solid var(--node-border);
+
+      .header-icon {
+        color: var(--selection-color);
+      }
+    }
+
+    .version-select {
+      width: 240px;
+    }
+
+    .spacer {
+      flex: 1;
+    }
+
+    .compare-body {
+      flex: 1;
+      display: flex;
+      min-height: 0;
+
+      app-snapshot-view {
+        flex: 1;
+        min-width: 0;
+      }
+    }
+
+    .change-list {
+      width: 280px;
+      overflow-y: auto;
+      border-left: 1px solid var(--node-border);
+      background: var(--node-bg);
+    }
+
+    .change-summary {
+      padding: 12px 16px;
+      font-size: 13px;
+      font-weight: 500;
+      border-bottom: 1px solid var(--node-border);
+    }
+
+    .change-item {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      width: 100%;
+      padding: 8px 16px;
+      border: none;
+      background: transparent;
+      color: inherit;
+      font: inherit;
+      font-size: 14px;
+      text-align: left;
+      cursor: pointer;
+
+      &:hover {
+        background: var(--canvas-bg);
+      }
+
+      &.active {
+        box-shadow: inset 3px 0 0 var(--selection-color);
+      }
+
+      mat-icon {
+        flex-shrink: 0;
+        font-size: 18px;
+        width: 18px;
+        height: 18px;
+
+        &.added {
+          color: #22c55e;
+        }
+
+        &.deleted {
+          color: #ef4444;
+        }
+
+        &.moved {
+          color: #f59e0b;
+        }
+
+        &.renamed {
+          color: #3b82f6;
+        }
+      }
+    }
+
+    .change-text {
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .hint {
+      padding: 16px;
+      margin: 0;
+      font-size: 14px;
+      opacity: 0.7;
+    }
+  `,
+})
+export class VersionCompareComponent implements OnInit {
+  private versionService = inject(VersionService);
+
+  // Version to compare from; compared to the current map until another one is picked
+  readonly baseVersion = input.required<MindMapVersion>();
+  readonly closed = output<void>();
+
+  readonly currentId = CURRENT_ID;
+  readonly changeIcons = CHANGE_ICONS;
+
+  private readonly versions = signal<MindMapVersion[]>([]);
+  readonly baseId = linkedSignal(() => this.baseVersion().id);
+  readonly targetId = signal(CURRENT_ID);
+  readonly highlightedNodeId = signal<string | null>(null);
+
+  private readonly current = computed(() => {
+    const snapshot = this.versionService.captureCurrentMap('Current map');
+    return snapshot ? { ...snapshot, id: CURRENT_ID } : null;
+  });
+
+  readonly options = computed(() => {
+    const saved = this.versions().length > 0 ? this.versions() : [this.baseVersion()];
+    const current = this.current();
+    return current ? [current, ...saved] : saved;
+  });
+
+  readonly base = computed(
+    () => this.options().find((v) => v.id === this.baseId()) ?? this.baseVersion()
+  );
+  readonly target = computed(
+    () => this.options().find((v) => v.id === this.targetId()) ?? this.options()[0]
+  );
+
+  readonly changes = computed<NodeChange[]>(() =>
+    this.versionService.compareVersions(this.base(), this.target())
+  );
+
+  /**
+   * The newer version plus the deleted nodes, drawn where they used to be
+   */
+  readonly overlay = computed(() => {
+    const base = this.base();
+    const target = this.target();
+    const targetIds = new Set(target.nodes.map((node) => node.id));
+    // Nodes that were inside a collapsed branch were not drawn in the older version either
+    const hiddenInBase = this.versionService.getHiddenNodeIds(base.nodes);
+    const deleted = base.nodes.filter(
+      (node) => !targetIds.has(node.id) && !hiddenInBase.has(node.id)
+    );
+
+    return {
+      nodes: [...target.nodes, ...deleted],
+      positions: { ...base.positions, ...target.positions },
+      sizes: { ...base.sizes, ...target.sizes },
+    };
+  });
+
+  readonly summary = computed(() => {
+    const counts: Record<NodeChangeKind, number> = { added: 0, deleted: 0, moved: 0, renamed: 0 };
+    this.changes().forEach((change) => change.kinds.forEach((kind) => counts[kind]++));
+
+    const parts = (Object.keys(counts) as NodeChangeKind[])
+      .filter((kind) => counts[kind] > 0)
+      .map((kind) => `${counts[kind]} ${kind}`);
+    return parts.length > 0 ? parts.join(' · ') : 'No changes';
+  });
+
+  async ngOnInit(): Promise<void> {
+    const version = this.baseVersion();
+    try {
+      this.versions.set(await this.versionService.getVersions(version.mapId, version.userId));
+    } catch (error) {
+      console.error('Failed to load versions:', error);
+    }
+  }
+
+  toggleHighlight(nodeId: string): void {
+    this.highlightedNodeId.set(this.highlightedNodeId() === nodeId ? null : nodeId);
+  }
+
+  describe(change: NodeChange): string {
+    if (change.kinds.includes('added')) return `Added "${change.text}"`;
+    if (change.kinds.includes('deleted')) return `Deleted "${change.text}"`;
+
+    const parts: string[] = [];
+    if (change.previousText !== undefined) {
+      parts.push(`Renamed "${change.previousText}" to "${change.text}"`);
+    }
+    if (change.kinds.includes('moved')) {
+      const node = this.target().nodes.find((n) => n.id === change.nodeId);
+      const parent = this.target().nodes.find((n) => n.id === node?.parentId);
+      const what = parts.length > 0 ? 'moved' : `Moved "${change.text}"`;
+      parts.push(change.parentChanged && parent ? `${what} under "${parent.text}"` : what);
+    }
+    return parts.join(', ');
+  }
+}
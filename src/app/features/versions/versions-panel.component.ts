@@ -0,0 +1,283 @@
+import { Component, OnInit, inject, input, output, signal } from '@angular/core';
+import { DatePipe } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatMenuModule } from '@angular/material/menu';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { MatInputModule } from '@angular/material/input';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MindMapStore } from '../../store/mind-map.store';
+import { VersionService } from '../../core/services/version.service';
+import { MindMapVersion } from '../../core/models/mind-map.model';
+
+/**
+ * Side panel listing the saved versions of the open map.
+ * Saving and deleting happen here; preview, compare, restore and fork are handed to the editor.
+ */
+@Component({
+  selector: 'app-versions-panel',
+  standalone: true,
+  imports: [
+    DatePipe,
+    FormsModule,
+    MatButtonModule,
+    MatIconModule,
+    MatMenuModule,
+    MatTooltipModule,
+    MatInputModule,
+    MatFormFieldModule,
+  ],
+  template: `
+    <aside class="versions-panel">
+      <header class="panel-header">
+        <h3>Versions</h3>
+        <button mat-icon-button (click)="closed.emit()" matTooltip="Close">
+          <mat-icon>close</mat-icon>
+        </button>
+      </header>
+
+      <div class="save-version">
+        <mat-form-field appearance="outline" class="full-width" subscriptSizing="dynamic">
+          <mat-label>Version name</mat-label>
+          <input
+            matInput
+            [(ngModel)]="versionName"
+            (keydown.enter)="saveVersion()"
+            placeholder="e.g. Before restructuring"
+          />
+        </mat-form-field>
+        <button
+          mat-raised-button
+          color="primary"
+          [disabled]="!versionName.trim() || isSaving()"
+          (click)="saveVersion()"
+        >
+          <mat-icon>bookmark_add</mat-icon>
+          Save Version
+        </button>
+      </div>
+
+      <div class="version-list">
+        @if (isLoading()) {
+          <p class="hint">Loading versions...</p>
+        } @else {
+          @for (version of versions(); track version.id) {
+            <div
+              class="version-item"
+              [class.active]="version.id === activeVersionId()"
+              (click)="preview.emit(version)"
+            >
+              <div class="version-info">
+                <span class="version-name">{{ version.name }}</span>
+                <span class="version-meta">
+                  {{ version.createdAt | date: 'medium' }} · {{ version.nodes.length }} nodes
+                </span>
+              </div>
+              @if (version.isAutomatic) {
+                <span class="auto-badge">Auto</span>
+              }
+              <button
+                mat-icon-button
+                [matMenuTriggerFor]="versionMenu"
+                [matMenuTriggerData]="{ version }"
+                (click)="$event.stopPropagation()"
+              >
+                <mat-icon>more_vert</mat-icon>
+              </button>
+            </div>
+          } @empty {
+            <p class="hint">
+              No versions yet. Save one above; snapshots are also taken automatically while you
+              edit.
+            </p>
+          }
+        }
+      </div>
+
+      <mat-menu #versionMenu="matMenu">
+        <ng-template matMenuContent let-version="version">
+          <button mat-menu-item (click)="preview.emit(version)">
+            <mat-icon>visibility</mat-icon>
+            <span>Preview</span>
+          </button>
+          <button mat-menu-item (click)="compare.emit(version)">
+            <mat-icon>compare</mat-icon>
+            <span>Compare with Current</span>
+          </button>
+          <button mat-menu-item (click)="restore.emit(version)">
+            <mat-icon>restore</mat-icon>
+            <span>Restore</span>
+          </button>
+          <button mat-menu-item (click)="fork.emit(version)">
+            <mat-icon>call_split</mat-icon>
+            <span>Copy to New Map</span>
+          </button>
+          <button mat-menu-item (click)="deleteVersion(version)">
+            <mat-icon>delete</mat-icon>
+            <span>Delete</span>
+          </button>
+        </ng-template>
+      </mat-menu>
+    </aside>
+  `,
+  styles: `
+    :host {
+      display: block;
+      width: 320px;
+      border-left: 1px solid var(--node-border);
+      background: var(--node-bg);
+    }
+
+    .versions-panel {
+      display: flex;
+      flex-direction: column;
+      height: 100%;
+    }
+
+    .panel-header {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      padding: 8px 8px 8px 16px;
+
+      h3 {
+        margin: 0;
+        font-weight: 500;
+      }
+    }
+
+    .save-version {
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+      padding: 0 16px 16px;
+      border-bottom: 1px solid var(--node-border);
+    }
+
+    .full-width {
+      width: 100%;
+    }
+
+    .version-list {
+      flex: 1;
+      overflow-y: auto;
+    }
+
+    .version-item {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      padding: 8px 8px 8px 16px;
+      cursor: pointer;
+
+      &:hover {
+        background: var(--canvas-bg);
+      }
+
+      &.active {
+        box-shadow: inset 3px 0 0 var(--selection-color);
+      }
+    }
+
+    .version-info {
+      flex: 1;
+      display: flex;
+      flex-direction: column;
+      min-width: 0;
+    }
+
+    .version-name {
+      font-weight: 500;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .version-meta {
+      font-size: 12px;
+      opacity: 0.7;
+    }
+
+    .auto-badge {
+      font-size: 11px;
+      padding: 2px 6px;
+      border-radius: 10px;
+      border: 1px solid var(--node-border);
+      color: var(--connection-color);
+    }
+
+    .hint {
+      padding: 16px;
+      margin: 0;
+      font-size: 14px;
+      opacity: 0.7;
+    }
+  `,
+})
+export class VersionsPanelComponent implements OnInit {
+  private store = inject(MindMapStore);
+  private versionService = inject(VersionService);
+
+  // Version currently shown in the preview or comparison, if any
+  readonly activeVersionId = input<string | null>(null);
+
+  readonly closed = output<void>();
+  readonly preview = output<MindMapVersion>();
+  readonly compare = output<MindMapVersion>();
+  readonly restore = output<MindMapVersion>();
+  readonly fork = output<MindMapVersion>();
+
+  readonly versions = signal<MindMapVersion[]>([]);
+  readonly isLoading = signal(true);
+  readonly isSaving = signal(false);
+
+  versionName = '';
+
+  ngOnInit(): void {
+    this.load();
+  }
+
+  /**
+   * Reload the list from the database
+   */
+  async load(): Promise<void> {
+    const map = this.store.currentMap();
+    if (!map) return;
+
+    try {
+      this.versions.set(await this.versionService.getVersions(map.id, map.userId));
+    } catch (error) {
+      console.error('Failed to load versions:', error);
+    } finally {
+      this.isLoading.set(false);
+    }
+  }
+
+  async saveVersion(): Promise<void> {
+    const name = this.versionName.trim();
+    if (!name || this.isSaving()) return;
+
+    this.isSaving.set(true);
+    try {
+      await this.versionService.createVersion(name);
+      this.versionName = '';
+      await this.load();
+    } catch (error) {
+      console.error('Failed to save version:', error);
+    } finally {
+      this.isSaving.set(false);
+    }
+  }
+
+  async deleteVersion(version: MindMapVersion): Promise<void> {
+    if (!confirm(`Are you sure you want to delete the version "${version.name}"?`)) return;
+
+    try {
+      await this.versionService.deleteVersion(version.id);
+      this.versions.update((versions) => versions.filter((v) => v.id !== version.id));
+    } catch (error) {
+      console.error('Failed to delete version:', error);
+    }
+  }
+}
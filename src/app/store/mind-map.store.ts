@@ -6,19 +6,78 @@ import {
   MindMapAction,
   ViewTransform,
   Position,
+  Size,
+  NodeStyle,
+  LayoutMode,
+  LayoutStyle,
+  NodePlacement,
+  ClipboardSubtrees,
 } from '../core/models/mind-map.model';
 import { LayoutService, ComputedLayout, LAYOUT_CONSTANTS } from '../core/services/layout.service';
 
+// Where a dragged node would be inserted among its siblings (auto layout mode)
+export interface ReorderTarget {
+  nodeId: string;
+  parentId: string;
+  index: number;
+  // Insertion line in canvas coordinates
+  indicator: { x: number; y: number; length: number; vertical: boolean };
+}
+
+// What freeform mode drew before a tree change
+interface FreeformSnapshot {
+  positions: Record<string, Position>;
+  hiddenIds: Set<string>;
+}
+
+/**
+ * Whether two node records lay out and place the same way: same nodes, same tree and
+ * the same offsets and pins (text and style edits don't count)
+ */
+function haveSamePlacement(
+  a: Record<string, MindMapNode>,
+  b: Record<string, MindMapNode>
+): boolean {
+  if (a === b) return true;
+  if (Object.keys(a).length !== Object.keys(b).length) return false;
+
+  return Object.entries(a).every(([id, node]) => {
+    const other = b[id];
+    return (
+      node === other ||
+      (!!other &&
+        node.parentId === other.parentId &&
+        node.childrenIds === other.childrenIds &&
+        node.isExpanded === other.isExpanded &&
+        node.manualOffset === other.manualOffset &&
+        node.absolutePosition === other.absolutePosition)
+    );
+  });
+}
+
 const DEFAULT_VIEW: ViewTransform = {
   scale: 1,
   panX: 0,
   panY: 0,
 };
 
+export interface HistoryOptions {
+  // Oldest entries are dropped beyond this many undo steps
+  maxDepth: number;
+  // Edits to the same node fields within this window merge into one undo step
+  coalesceWindowMs: number;
+}
+
+const DEFAULT_HISTORY_OPTIONS: HistoryOptions = {
+  maxDepth: 200,
+  coalesceWindowMs: 1000,
+};
+
 const INITIAL_STATE: MindMapState = {
   currentMap: null,
   nodes: {},
   selectedNodeId: null,
+  selectedNodeIds: [],
   editingNodeId: null,
   history: {
     past: [],
@@ -41,6 +100,10 @@ export class MindMapStore {
   private _deletedNodeIds = signal<Set<string>>(new Set());
   private _mapDirty = signal(false);
 
+  // Open history transactions (innermost last)
+  private transactions: { label: string; start: number }[] = [];
+  private historyOptions: HistoryOptions = { ...DEFAULT_HISTORY_OPTIONS };
+
   // Drag state for live connection updates during node dragging
   private _draggingState = signal<{
     nodeId: string;
@@ -49,14 +112,41 @@ export class MindMapStore {
   } | null>(null);
   readonly draggingState = this._draggingState.asReadonly();
 
+  // Sibling insertion point while dragging in auto layout mode
+  private _reorderTarget = signal<ReorderTarget | null>(null);
+  readonly reorderTarget = this._reorderTarget.asReadonly();
+
+  // Node a dragged node would be moved under when dropped
+  private _dropTargetId = signal<string | null>(null);
+  readonly dropTargetId = this._dropTargetId.asReadonly();
+
+  // Rendered node sizes reported by NodeComponent (used by layout and connections)
+  private _nodeSizes = signal<Record<string, Size>>({});
+  readonly nodeSizes = this._nodeSizes.asReadonly();
+
   // Public readonly signals
   readonly state = this._state.asReadonly();
   readonly currentMap = computed(() => this._state().currentMap);
   readonly nodes = computed(() => this._state().nodes);
   readonly selectedNodeId = computed(() => this._state().selectedNodeId);
+  readonly selectedNodeIds = computed(() => {
+    const { nodes, selectedNodeIds } = this._state();
+    return new Set(selectedNodeIds.filter((id) => nodes[id]));
+  });
+  readonly hasMultiSelection = computed(() => this.selectedNodeIds().size > 1);
   readonly editingNodeId = computed(() => this._state().editingNodeId);
   readonly view = computed(() => this._state().view);
   readonly history = computed(() => this._state().history);
+  readonly layoutMode = computed<LayoutMode>(
+    () => this._state().currentMap?.settings.layoutMode ?? 'freeform'
+  );
+  readonly layoutStyle = computed<LayoutStyle>(
+    () => this._state().currentMap?.settings.layoutStyle ?? 'horizontal'
+  );
+
+  readonly historyDepth = computed(
+    () => this._state().currentMap?.settings.historyDepth ?? DEFAULT_HISTORY_OPTIONS.maxDepth
+  );
 
   // Dirty state signals (public for auto-save service)
   readonly dirtyNodeIds = this._dirtyNodeIds.asReadonly();
@@ -77,34 +167,84 @@ export class MindMapStore {
     const id = this._state().selectedNodeId;
     return id ? this._state().nodes[id] || null : null;
   });
+
+  /**
+   * IDs of nodes hidden inside collapsed branches
+   */
+  readonly hiddenNodeIds = computed(() => {
+    const nodes = this._state().nodes;
+    const hidden = new Set<string>();
+
+    for (const node of Object.values(nodes)) {
+      if (node.isExpanded === false) {
+        this.getDescendantIds(node.id, nodes).forEach((id) => hidden.add(id));
+      }
+    }
+    return hidden;
+  });
+
+  /**
+   * Nodes that are rendered (everything outside collapsed branches)
+   */
+  readonly visibleNodes = computed(() => {
+    const hidden = this.hiddenNodeIds();
+    return this.nodesArray().filter((node) => !hidden.has(node.id));
+  });
+
   readonly canUndo = computed(() => this._state().history.past.length > 0);
   readonly canRedo = computed(() => this._state().history.future.length > 0);
 
   // =========== Layout Computed Signals ===========
 
+  private readonly rootNodeId = computed(() => this._state().currentMap?.rootNodeId);
+
+  // Node records that only change when placement does, so layout and overlap resolution
+  // are not redone for text or style edits
+  private readonly placementNodes = computed(() => this._state().nodes, {
+    equal: haveSamePlacement,
+  });
+
   /**
    * Computed layout based on tree structure
    */
   readonly computedLayout = computed<ComputedLayout>(() => {
-    const nodes = this._state().nodes;
-    const rootId = this._state().currentMap?.rootNodeId;
-    return this.layoutService.computeLayout(nodes, rootId);
+    const nodes = this.placementNodes();
+    const rootId = this.rootNodeId();
+    return this.layoutService.computeLayout(nodes, rootId, this.layoutStyle(), this._nodeSizes());
   });
 
   /**
-   * Final node positions (computed + manual offset)
+   * Final node positions (computed + manual offset).
+   * In freeform mode pinned nodes keep their absolute position instead.
+   * Auto-placed subtrees are then pushed away from manually placed nodes they overlap.
    */
   readonly nodePositions = computed<Record<string, Position>>(() => {
     const layout = this.computedLayout();
-    const nodes = this._state().nodes;
+    const nodes = this.placementNodes();
+    const freeform = this.layoutMode() === 'freeform';
     const positions: Record<string, Position> = {};
 
     for (const [nodeId, node] of Object.entries(nodes)) {
+      if (freeform && node.absolutePosition) {
+        positions[nodeId] = node.absolutePosition;
+        continue;
+      }
+
       const computedPos = layout[nodeId];
       positions[nodeId] = this.layoutService.getFinalPosition(computedPos, node.manualOffset);
     }
 
-    return positions;
+    const fixedIds = this.getManuallyPlacedIds(nodes);
+    if (fixedIds.size === 0) return positions;
+
+    return this.layoutService.resolveOverlaps(
+      nodes,
+      this.rootNodeId(),
+      positions,
+      this._nodeSizes(),
+      fixedIds,
+      this.layoutService.getCrossAxis(this.layoutStyle())
+    );
   });
 
   /**
@@ -114,6 +254,13 @@ export class MindMapStore {
     return this.nodePositions()[nodeId] || { x: 0, y: 0 };
   }
 
+  /**
+   * Get the rendered size of a node (default size until measured)
+   */
+  getNodeSize(nodeId: string): Size {
+    return this.layoutService.getNodeSize(this._state().nodes[nodeId], this._nodeSizes());
+  }
+
   // Get children of a node
   getChildNodes(nodeId: string) {
     return computed(() => {
@@ -141,10 +288,12 @@ export class MindMapStore {
       currentMap: map,
       nodes: nodesMap,
       selectedNodeId: null,
+      selectedNodeIds: [],
       editingNodeId: null,
       history: { past: [], future: [] },
       view: DEFAULT_VIEW,
     }));
+    this.configureHistory({ maxDepth: this.historyDepth() });
 
     // Clear dirty state on load
     this.clearDirtyState();
@@ -155,9 +304,57 @@ export class MindMapStore {
    */
   clearMap(): void {
     this._state.set(INITIAL_STATE);
+    this._nodeSizes.set({});
     this.clearDirtyState();
   }
 
+  /**
+   * Record the rendered size of a node (reported by NodeComponent)
+   */
+  setNodeSize(nodeId: string, size: Size): void {
+    const current = this._nodeSizes()[nodeId];
+    if (current && current.width === size.width && current.height === size.height) return;
+
+    this._nodeSizes.update((sizes) => ({ ...sizes, [nodeId]: size }));
+  }
+
+  /**
+   * Switch the layout style of the current map (saved with the map settings)
+   */
+  setLayoutStyle(style: LayoutStyle): void {
+    const map = this._state().currentMap;
+    if (!map || this.layoutStyle() === style) return;
+
+    this._state.update((state) => ({
+      ...state,
+      currentMap: {
+        ...map,
+        settings: { ...map.settings, layoutStyle: style },
+      },
+    }));
+
+    this.markMapDirty(); // Settings and preview need update
+  }
+
+  /**
+   * Change how many undo steps the current map keeps (saved with the map settings)
+   */
+  setHistoryDepth(depth: number): void {
+    const map = this._state().currentMap;
+    if (!map || this.historyDepth() === depth) return;
+
+    this._state.update((state) => ({
+      ...state,
+      currentMap: {
+        ...map,
+        settings: { ...map.settings, historyDepth: depth },
+      },
+    }));
+    this.configureHistory({ maxDepth: depth });
+
+    this.markMapDirty();
+  }
+
   // =========== Dirty State Management ===========
 
   /**
@@ -231,6 +428,106 @@ export class MindMapStore {
     this._draggingState.set(state);
   }
 
+  /**
+   * Update the drop target for a node being dragged by `delta`.
+   * The target is the visible node under the dragged node's center that the dragged
+   * branches can legally move under.
+   */
+  updateDropTarget(nodeId: string, delta: Position): void {
+    const positions = this.nodePositions();
+    const position = positions[nodeId];
+    if (!position) {
+      this._dropTargetId.set(null);
+      return;
+    }
+
+    const size = this.getNodeSize(nodeId);
+    const centerX = position.x + delta.x + size.width / 2;
+    const centerY = position.y + delta.y + size.height / 2;
+    const hidden = this.hiddenNodeIds();
+    const roots = this.getDragRoots(nodeId);
+    const moving = new Set([...roots, ...this.getDragGroupIds(nodeId)]);
+
+    const targetId =
+      Object.keys(positions).find((id) => {
+        if (hidden.has(id) || moving.has(id)) return false;
+        if (!roots.some((rootId) => this.canReparent(rootId, id))) return false;
+        const targetSize = this.getNodeSize(id);
+        return (
+          centerX >= positions[id].x &&
+          centerX <= positions[id].x + targetSize.width &&
+          centerY >= positions[id].y &&
+          centerY <= positions[id].y + targetSize.height
+        );
+      }) ?? null;
+
+    this._dropTargetId.set(targetId);
+  }
+
+  clearDropTarget(): void {
+    this._dropTargetId.set(null);
+  }
+
+  /**
+   * Update the sibling insertion point for a node being dragged by `delta`.
+   * Only auto layout reorders; the target is cleared when the drop would not change the order.
+   */
+  updateReorderTarget(nodeId: string, delta: Position): void {
+    const nodes = this._state().nodes;
+    const node = nodes[nodeId];
+    const parent = node?.parentId ? nodes[node.parentId] : undefined;
+    // Dropping onto another node takes precedence over reordering; groups never reorder
+    const isGroupDrag = this.getDragRoots(nodeId).length > 1;
+    if (!node || !parent || this.layoutMode() !== 'auto' || this._dropTargetId() || isGroupDrag) {
+      this._reorderTarget.set(null);
+      return;
+    }
+
+    const positions = this.nodePositions();
+    const axis = this.layoutService.getCrossAxis(this.layoutStyle());
+    const extentOf = (id: string) => {
+      const size = this.getNodeSize(id);
+      return axis === 'x' ? size.width : size.height;
+    };
+    const centerOf = (id: string, shift = 0) => positions[id][axis] + shift + extentOf(id) / 2;
+
+    const draggedCenter = centerOf(nodeId, delta[axis]);
+    const others = parent.childrenIds.filter((id) => id !== nodeId && positions[id]);
+    const index = others.filter((id) => centerOf(id) < draggedCenter).length;
+
+    if (index === parent.childrenIds.indexOf(nodeId)) {
+      this._reorderTarget.set(null);
+      return;
+    }
+
+    // Draw the insertion line between the neighbors (or just outside the first/last one)
+    const gap = 8;
+    const before = others[index - 1];
+    const after = others[index];
+    const cross =
+      before && after
+        ? (positions[before][axis] + extentOf(before) + positions[after][axis]) / 2
+        : after
+          ? positions[after][axis] - gap
+          : positions[before][axis] + extentOf(before) + gap;
+    const neighbor = after ?? before;
+    const neighborSize = this.getNodeSize(neighbor);
+
+    this._reorderTarget.set({
+      nodeId,
+      parentId: parent.id,
+      index,
+      indicator:
+        axis === 'y'
+          ? { x: positions[neighbor].x, y: cross, length: neighborSize.width, vertical: false }
+          : { x: cross, y: positions[neighbor].y, length: neighborSize.height, vertical: true },
+    });
+  }
+
+  clearReorderTarget(): void {
+    this._reorderTarget.set(null);
+  }
+
   /**
    * Select a node
    */
@@ -238,10 +535,48 @@ export class MindMapStore {
     this._state.update((state) => ({
       ...state,
       selectedNodeId: nodeId,
+      selectedNodeIds: nodeId ? [nodeId] : [],
       editingNodeId: null,
     }));
   }
 
+  /**
+   * Add a node to the selection, or remove it if already selected (Ctrl/Shift-click)
+   */
+  toggleNodeSelection(nodeId: string): void {
+    this._state.update((state) => {
+      const selected = state.selectedNodeIds.includes(nodeId);
+      const selectedNodeIds = selected
+        ? state.selectedNodeIds.filter((id) => id !== nodeId)
+        : [...state.selectedNodeIds, nodeId];
+
+      return {
+        ...state,
+        selectedNodeId: selected ? (selectedNodeIds.at(-1) ?? null) : nodeId,
+        selectedNodeIds,
+        editingNodeId: null,
+      };
+    });
+  }
+
+  /**
+   * Select several nodes at once (marquee), optionally keeping the current selection
+   */
+  selectNodes(nodeIds: string[], additive = false): void {
+    this._state.update((state) => {
+      const selectedNodeIds = additive
+        ? [...new Set([...state.selectedNodeIds, ...nodeIds])]
+        : nodeIds;
+
+      return {
+        ...state,
+        selectedNodeId: selectedNodeIds.at(-1) ?? null,
+        selectedNodeIds,
+        editingNodeId: null,
+      };
+    });
+  }
+
   /**
    * Start editing a node
    */
@@ -249,6 +584,7 @@ export class MindMapStore {
     this._state.update((state) => ({
       ...state,
       selectedNodeId: nodeId,
+      selectedNodeIds: [nodeId],
       editingNodeId: nodeId,
     }));
   }
@@ -267,6 +603,24 @@ export class MindMapStore {
    * Add a node
    */
   addNode(node: MindMapNode, skipHistory = false): void {
+    // In freeform mode new nodes are pinned where the layout would put them next to their parent
+    if (!skipHistory && this.layoutMode() === 'freeform' && !node.absolutePosition) {
+      const parent = node.parentId ? this._state().nodes[node.parentId] : undefined;
+      const nodesAfter = parent
+        ? {
+            ...this._state().nodes,
+            [node.id]: node,
+            [parent.id]: { ...parent, childrenIds: [...parent.childrenIds, node.id] },
+          }
+        : this._state().nodes;
+      const absolutePosition = this.getFreeformPlacements(nodesAfter, [node.id])[node.id];
+      if (absolutePosition) {
+        const { manualOffset, ...nodeWithoutOffset } = node;
+        node = { ...nodeWithoutOffset, absolutePosition };
+      }
+    }
+    const snapshot = this.getFreeformSnapshot();
+
     this._state.update((state) => {
       const newNodes = { ...state.nodes, [node.id]: node };
 
@@ -281,16 +635,14 @@ export class MindMapStore {
 
       const newHistory = skipHistory
         ? state.history
-        : {
-            past: [...state.history.past, { type: 'ADD_NODE' as const, node }],
-            future: [],
-          };
+        : this.recordAction(state.history, { type: 'ADD_NODE', node });
 
       return {
         ...state,
         nodes: newNodes,
         history: newHistory,
         selectedNodeId: node.id,
+        selectedNodeIds: [node.id],
       };
     });
 
@@ -300,6 +652,7 @@ export class MindMapStore {
       this.markNodeDirty(node.parentId); // Parent's childrenIds changed
     }
     this.markMapDirty(); // Preview needs update
+    this.pinMovedNodes(snapshot);
   }
 
   /**
@@ -309,9 +662,13 @@ export class MindMapStore {
     const node = this._state().nodes[nodeId];
     if (!node || !node.parentId) return; // Cannot delete root node
 
-    const nodesToDelete = this.getDescendantIds(nodeId, this._state().nodes);
+    const nodes = this._state().nodes;
+    const nodesToDelete = this.getDescendantIds(nodeId, nodes);
+    const descendants = nodesToDelete.map((id) => nodes[id]);
     nodesToDelete.push(nodeId);
     const parentId = node.parentId;
+    const index = nodes[parentId]?.childrenIds.indexOf(nodeId) ?? -1;
+    const snapshot = this.getFreeformSnapshot();
 
     this._state.update((state) => {
       const newNodes = { ...state.nodes };
@@ -330,19 +687,20 @@ export class MindMapStore {
 
       const newHistory = skipHistory
         ? state.history
-        : {
-            past: [
-              ...state.history.past,
-              { type: 'DELETE_NODE' as const, node, parentId: node.parentId },
-            ],
-            future: [],
-          };
+        : this.recordAction(state.history, {
+            type: 'DELETE_NODE',
+            node,
+            parentId,
+            descendants,
+            index,
+          });
 
       return {
         ...state,
         nodes: newNodes,
         history: newHistory,
         selectedNodeId: parentId,
+        selectedNodeIds: [parentId],
       };
     });
 
@@ -352,6 +710,7 @@ export class MindMapStore {
       this.markNodeDirty(parentId); // Parent's childrenIds changed
     }
     this.markMapDirty(); // Preview needs update
+    this.pinMovedNodes(snapshot);
   }
 
   /**
@@ -361,23 +720,17 @@ export class MindMapStore {
     const node = this._state().nodes[nodeId];
     if (!node) return;
 
+    // Record only the changed fields; undefined marks a field the node did not have
+    const before = Object.fromEntries(
+      Object.keys(updates).map((key) => [key, node[key as keyof MindMapNode]])
+    ) as Partial<MindMapNode>;
+
     this._state.update((state) => {
       const updatedNode = { ...node, ...updates, updatedAt: new Date() };
 
       const newHistory = skipHistory
         ? state.history
-        : {
-            past: [
-              ...state.history.past,
-              {
-                type: 'UPDATE_NODE' as const,
-                nodeId,
-                before: node,
-                after: updates,
-              },
-            ],
-            future: [],
-          };
+        : this.recordUpdate(state.history, nodeId, before, updates);
 
       return {
         ...state,
@@ -388,12 +741,324 @@ export class MindMapStore {
 
     // Mark as dirty for auto-save
     this.markNodeDirty(nodeId);
-    // If text changed, update preview
-    if (updates.text !== undefined) {
+    // If text or style changed, update preview
+    if ('text' in updates || 'style' in updates) {
       this.markMapDirty();
     }
   }
 
+  /**
+   * Move a node to a new index among its siblings.
+   * Keeps every sibling's `order` field in sync with the parent's childrenIds.
+   */
+  reorderNode(nodeId: string, toIndex: number, skipHistory = false): void {
+    const node = this._state().nodes[nodeId];
+    const parentId = node?.parentId;
+    if (!node || !parentId) return;
+
+    const parent = this._state().nodes[parentId];
+    const fromIndex = parent?.childrenIds.indexOf(nodeId) ?? -1;
+    if (!parent || fromIndex === -1 || fromIndex === toIndex) return;
+
+    const childrenIds = parent.childrenIds.filter((id) => id !== nodeId);
+    childrenIds.splice(toIndex, 0, nodeId);
+    let changedIds: string[] = [];
+    const snapshot = this.getFreeformSnapshot();
+
+    this._state.update((state) => {
+      const newNodes = { ...state.nodes };
+      changedIds = this.setChildren(newNodes, parentId, childrenIds);
+
+      const newHistory = skipHistory
+        ? state.history
+        : this.recordAction(state.history, {
+            type: 'REORDER_NODE',
+            nodeId,
+            parentId,
+            fromIndex,
+            toIndex,
+          });
+
+      return {
+        ...state,
+        nodes: newNodes,
+        history: newHistory,
+      };
+    });
+
+    // Mark as dirty for auto-save (parent's childrenIds and siblings' order changed)
+    this.markNodesDirty(changedIds);
+    this.markMapDirty(); // Preview needs update
+    this.pinMovedNodes(snapshot);
+  }
+
+  /**
+   * Move a node and its subtree under a new parent.
+   * Dropping onto the node itself or one of its descendants is ignored.
+   * The moved subtree loses its offsets and pins so it lays out under the new parent
+   * (in freeform mode it is pinned again next to the new parent).
+   */
+  reparentNode(nodeId: string, newParentId: string, toIndex?: number, skipHistory = false): void {
+    const nodes = this._state().nodes;
+    const node = nodes[nodeId];
+    const fromParentId = node?.parentId;
+    const oldParent = fromParentId ? nodes[fromParentId] : undefined;
+    const newParent = nodes[newParentId];
+    if (!node || !fromParentId || !oldParent || !newParent) return;
+    if (!this.canReparent(nodeId, newParentId)) return;
+
+    const fromIndex = oldParent.childrenIds.indexOf(nodeId);
+    const oldSiblingIds = oldParent.childrenIds.filter((id) => id !== nodeId);
+    const newSiblingIds = [...newParent.childrenIds];
+    const index = Math.min(toIndex ?? newSiblingIds.length, newSiblingIds.length);
+    newSiblingIds.splice(index, 0, nodeId);
+
+    const subtreeIds = [nodeId, ...this.getDescendantIds(nodeId, nodes)];
+    const placements: Record<string, NodePlacement> = {};
+    subtreeIds.forEach((id) => {
+      placements[id] = {
+        manualOffset: nodes[id].manualOffset,
+        absolutePosition: nodes[id].absolutePosition,
+      };
+    });
+
+    const changedIds = new Set<string>(subtreeIds);
+    const snapshot = this.getFreeformSnapshot();
+
+    this._state.update((state) => {
+      const newNodes = { ...state.nodes };
+
+      subtreeIds.forEach((id) => {
+        newNodes[id] = {
+          ...newNodes[id],
+          manualOffset: undefined,
+          absolutePosition: undefined,
+          updatedAt: new Date(),
+        };
+      });
+      newNodes[nodeId] = { ...newNodes[nodeId], parentId: newParentId };
+
+      this.setChildren(newNodes, fromParentId, oldSiblingIds).forEach((id) => changedIds.add(id));
+      this.setChildren(newNodes, newParentId, newSiblingIds).forEach((id) => changedIds.add(id));
+
+      // In freeform mode the subtree is pinned next to its new parent, as new nodes are
+      if (this.layoutMode() === 'freeform') {
+        const pins = this.getFreeformPlacements(newNodes, subtreeIds);
+        for (const [id, absolutePosition] of Object.entries(pins)) {
+          newNodes[id] = { ...newNodes[id], absolutePosition };
+        }
+      }
+
+      const newHistory = skipHistory
+        ? state.history
+        : this.recordAction(state.history, {
+            type: 'REPARENT_NODE',
+            nodeId,
+            fromParentId,
+            toParentId: newParentId,
+            fromIndex,
+            toIndex: index,
+            placements,
+          });
+
+      return {
+        ...state,
+        nodes: newNodes,
+        history: newHistory,
+      };
+    });
+
+    // Mark as dirty for auto-save (both parents, renumbered siblings and the moved subtree)
+    this.markNodesDirty([...changedIds]);
+    this.markMapDirty(); // Preview needs update
+    this.pinMovedNodes(snapshot);
+  }
+
+  /**
+   * Whether a node can be moved under the given parent (no root moves, no cycles)
+   */
+  canReparent(nodeId: string, newParentId: string): boolean {
+    const nodes = this._state().nodes;
+    const node = nodes[nodeId];
+    if (!node?.parentId || !nodes[newParentId]) return false;
+    if (nodeId === newParentId || node.parentId === newParentId) return false;
+    return !this.getDescendantIds(nodeId, nodes).includes(newParentId);
+  }
+
+  /**
+   * Delete several nodes (and their subtrees) as one undo step
+   */
+  deleteNodes(nodeIds: string[]): void {
+    const roots = this.getTopLevelIds(nodeIds).filter((id) => this._state().nodes[id]?.parentId);
+    this.batch(`Deleted ${this.countLabel(roots.length, 'branch', 'branches')}`, () =>
+      roots.forEach((id) => this.deleteNode(id))
+    );
+  }
+
+  /**
+   * Apply the same style changes (color, shape, ...) to several nodes as one undo step
+   */
+  updateNodesStyle(nodeIds: string[], style: Partial<NodeStyle>): void {
+    const verb = Object.keys(style).every((key) => key === 'color') ? 'Recolored' : 'Restyled';
+
+    this.batch(`${verb} ${this.countLabel(nodeIds.length, 'node', 'nodes')}`, () => {
+      nodeIds.forEach((id) => {
+        const node = this._state().nodes[id];
+        if (node) {
+          this.updateNode(id, { style: { ...node.style, ...style } });
+        }
+      });
+    });
+  }
+
+  /**
+   * Move several nodes (with their subtrees) by the same delta as one undo step
+   */
+  moveNodesBy(nodeIds: string[], delta: Position): void {
+    const positions = this.nodePositions();
+    const roots = this.getTopLevelIds(nodeIds);
+
+    this.batch(`Moved ${this.countLabel(roots.length, 'branch', 'branches')}`, () => {
+      roots.forEach((id) => {
+        const position = positions[id];
+        if (position) {
+          this.setNodePosition(id, { x: position.x + delta.x, y: position.y + delta.y });
+        }
+      });
+    });
+  }
+
+  /**
+   * Move several branches under a new parent as one undo step.
+   * A collapsed parent is expanded (in the same step) so the branches stay visible.
+   */
+  reparentNodes(nodeIds: string[], newParentId: string): void {
+    const roots = this.getTopLevelIds(nodeIds).filter((id) => this.canReparent(id, newParentId));
+    const parentText = this._state().nodes[newParentId]?.text;
+    if (roots.length === 0) return;
+
+    this.batch(
+      `Moved ${this.countLabel(roots.length, 'branch', 'branches')} under '${parentText}'`,
+      () => {
+        this.setExpanded(newParentId, true);
+        roots.forEach((id) => this.reparentNode(id, newParentId));
+      }
+    );
+  }
+
+  /**
+   * Copies of the given branches (each node with all its descendants)
+   */
+  copySubtrees(nodeIds: string[]): ClipboardSubtrees {
+    const nodes = this._state().nodes;
+    const rootIds = this.getTopLevelIds(nodeIds);
+    const ids = rootIds.flatMap((id) => [id, ...this.getDescendantIds(id, nodes)]);
+    return { rootIds, nodes: ids.map((id) => nodes[id]) };
+  }
+
+  /**
+   * Insert copied branches under a node as one undo step.
+   * Every node gets a fresh ID and belongs to this map; placements from the source are dropped
+   * so the branches are laid out under their new parent. Returns the new root IDs.
+   */
+  pasteSubtrees(parentId: string, content: ClipboardSubtrees): string[] {
+    const parent = this._state().nodes[parentId];
+    if (!parent || content.rootIds.length === 0) return [];
+
+    const sourceNodes = new Map(content.nodes.map((node) => [node.id, node]));
+    const pinned = this.layoutMode() === 'freeform' && !!parent.absolutePosition;
+    // Follow the parent's manual offset, like newly added children do
+    const manualOffset = parent.manualOffset && !pinned ? parent.manualOffset : undefined;
+    const now = new Date();
+    const newRootIds: string[] = [];
+
+    const insert = (sourceId: string, newParentId: string, order: number): string | null => {
+      const source = sourceNodes.get(sourceId);
+      if (!source) return null;
+
+      const id = this.generateId();
+      this.addNode({
+        ...source,
+        id,
+        userId: parent.userId,
+        mapId: parent.mapId,
+        parentId: newParentId,
+        manualOffset: manualOffset ? { ...manualOffset } : undefined,
+        absolutePosition: undefined,
+        position: undefined,
+        childrenIds: [],
+        order,
+        createdAt: now,
+        updatedAt: now,
+      });
+      source.childrenIds.forEach((childId, index) => insert(childId, id, index));
+      return id;
+    };
+
+    const count = this.countLabel(content.rootIds.length, 'branch', 'branches');
+    this.batch(`Pasted ${count} under '${parent.text}'`, () => {
+      this.setExpanded(parentId, true);
+      content.rootIds.forEach((rootId) => {
+        const id = insert(rootId, parentId, this._state().nodes[parentId].childrenIds.length);
+        if (id) newRootIds.push(id);
+      });
+    });
+
+    this.selectNodes(newRootIds);
+    return newRootIds;
+  }
+
+  /**
+   * Branches moved by dragging `nodeId`: the whole multi-selection when the node is part of it
+   */
+  getDragRoots(nodeId: string): string[] {
+    const selection = this.selectedNodeIds();
+    const roots = selection.has(nodeId) ? this.getTopLevelIds([...selection]) : [];
+    return roots.includes(nodeId) ? roots : [nodeId];
+  }
+
+  /**
+   * Nodes that move along with a dragged node (its descendants and the other dragged branches)
+   */
+  getDragGroupIds(nodeId: string): string[] {
+    const nodes = this._state().nodes;
+    return this.getDragRoots(nodeId).flatMap((id) => [
+      ...(id === nodeId ? [] : [id]),
+      ...this.getDescendantIds(id, nodes),
+    ]);
+  }
+
+  /**
+   * Collapse or expand a node's branch
+   */
+  setExpanded(nodeId: string, expanded: boolean, skipHistory = false): void {
+    const node = this._state().nodes[nodeId];
+    if (!node || node.childrenIds.length === 0) return;
+    if ((node.isExpanded !== false) === expanded) return;
+
+    const snapshot = this.getFreeformSnapshot();
+    this.updateNode(nodeId, { isExpanded: expanded }, skipHistory);
+    this.pinMovedNodes(snapshot);
+
+    // Keep the selection visible when it disappears into the collapsed branch
+    const selectedId = this._state().selectedNodeId;
+    if (!expanded && selectedId && this.hiddenNodeIds().has(selectedId)) {
+      this.selectNode(nodeId);
+    }
+
+    this.markMapDirty(); // Preview needs update
+  }
+
+  /**
+   * Toggle a node's collapsed state
+   */
+  toggleExpanded(nodeId: string): void {
+    const node = this._state().nodes[nodeId];
+    if (!node) return;
+
+    this.setExpanded(nodeId, node.isExpanded === false);
+  }
+
   /**
    * Update connection style for a node's incoming connection (from parent)
    */
@@ -404,15 +1069,14 @@ export class MindMapStore {
     const node = this._state().nodes[nodeId];
     if (!node) return;
 
-    const currentStyle = node.style || {};
-    const newStyle = { ...currentStyle };
+    const newStyle = { ...node.style };
 
-    // Update or remove connectionColor
-    if (style.connectionColor !== undefined) {
-      if (style.connectionColor === undefined || style.connectionColor === null) {
-        delete newStyle.connectionColor;
-      } else {
+    // Update or remove connectionColor (passing undefined resets it to the node color)
+    if ('connectionColor' in style) {
+      if (style.connectionColor) {
         newStyle.connectionColor = style.connectionColor;
+      } else {
+        delete newStyle.connectionColor;
       }
     }
 
@@ -425,8 +1089,8 @@ export class MindMapStore {
       }
     }
 
+    // A single UPDATE_NODE entry; updateNode also refreshes the preview for style changes
     this.updateNode(nodeId, { style: newStyle });
-    this.markMapDirty(); // Preview needs update for connection colors
   }
 
   /**
@@ -481,20 +1145,14 @@ export class MindMapStore {
 
       const newHistory = skipHistory
         ? state.history
-        : {
-            past: [
-              ...state.history.past,
-              {
-                type: 'SET_OFFSET' as const,
-                nodeId,
-                from: oldOffsets[nodeId],
-                to: newOffsets[nodeId],
-                // Store descendant offsets for proper undo
-                descendantOffsets: descendantIds.length > 0 ? { old: oldOffsets, new: newOffsets } : undefined,
-              },
-            ],
-            future: [],
-          };
+        : this.recordAction(state.history, {
+            type: 'SET_OFFSET',
+            nodeId,
+            from: oldOffsets[nodeId],
+            to: newOffsets[nodeId],
+            // Store descendant offsets for proper undo
+            descendantOffsets: descendantIds.length > 0 ? { old: oldOffsets, new: newOffsets } : undefined,
+          });
 
       return {
         ...state,
@@ -514,22 +1172,178 @@ export class MindMapStore {
   /**
    * Clear manual offset (reset to auto position)
    */
-  clearNodeOffset(nodeId: string): void {
+  clearNodeOffset(nodeId: string, skipHistory = false): void {
+    const node = this._state().nodes[nodeId];
+    if (!node?.manualOffset) return;
+
+    const from = node.manualOffset;
+    this.setOffsetDirect(nodeId, undefined);
+
+    if (!skipHistory) {
+      this._state.update((state) => ({
+        ...state,
+        history: this.recordAction(state.history, {
+          type: 'SET_OFFSET',
+          nodeId,
+          from,
+          to: undefined,
+        }),
+      }));
+    }
+  }
+
+  /**
+   * Pin a node to an absolute position (freeform mode drag)
+   * Also moves all descendant nodes by the same delta to maintain relationships
+   */
+  setNodePosition(nodeId: string, newPosition: Position, skipHistory = false): void {
     const node = this._state().nodes[nodeId];
     if (!node) return;
 
+    const finalPositions = this.nodePositions();
+    const currentFinalPos = finalPositions[nodeId];
+    const delta = {
+      x: newPosition.x - currentFinalPos.x,
+      y: newPosition.y - currentFinalPos.y,
+    };
+
+    const descendantIds = this.getDescendantIds(nodeId, this._state().nodes);
+    const oldPositions: Record<string, Position | undefined> = {};
+    const newPositions: Record<string, Position> = { [nodeId]: newPosition };
+
+    for (const descId of descendantIds) {
+      const descPos = finalPositions[descId];
+      if (descPos) {
+        newPositions[descId] = { x: descPos.x + delta.x, y: descPos.y + delta.y };
+      }
+    }
+
+    for (const id of Object.keys(newPositions)) {
+      oldPositions[id] = this._state().nodes[id]?.absolutePosition;
+    }
+
+    this.setAbsolutePositions(newPositions);
+
+    if (!skipHistory) {
+      this._state.update((state) => ({
+        ...state,
+        history: this.recordAction(state.history, {
+          type: 'SET_POSITION',
+          nodeId,
+          positions: { old: oldPositions, new: newPositions },
+        }),
+      }));
+    }
+
+    // Mark as dirty for auto-save
+    this.markNodesDirty(Object.keys(newPositions));
+    this.markMapDirty(); // Preview needs update
+  }
+
+  /**
+   * Switch between freeform and auto layout while keeping the canvas predictable:
+   * - to 'freeform': every node is pinned where it currently appears (offsets baked in)
+   * - to 'auto': offsets and pins are cleared so the map snaps back into the tree
+   */
+  setLayoutMode(mode: LayoutMode, skipHistory = false): void {
+    const map = this._state().currentMap;
+    const from = this.layoutMode();
+    if (!map || from === mode) return;
+
+    const placements: Record<string, NodePlacement> = {};
+    for (const [nodeId, node] of Object.entries(this._state().nodes)) {
+      placements[nodeId] = {
+        manualOffset: node.manualOffset,
+        absolutePosition: node.absolutePosition,
+      };
+    }
+
+    const finalPositions = this.nodePositions();
+    // Collapsed branches are placed next to their parent once they are expanded again
+    const hidden = this.hiddenNodeIds();
+
     this._state.update((state) => {
-      const currentNode = state.nodes[nodeId];
-      const { manualOffset, ...nodeWithoutOffset } = currentNode;
+      const newNodes: Record<string, MindMapNode> = {};
+      for (const [nodeId, node] of Object.entries(state.nodes)) {
+        const { manualOffset, absolutePosition, ...rest } = node;
+        newNodes[nodeId] =
+          mode === 'freeform' && !hidden.has(nodeId)
+            ? { ...rest, absolutePosition: finalPositions[nodeId], updatedAt: new Date() }
+            : { ...rest, updatedAt: new Date() };
+      }
 
       return {
         ...state,
-        nodes: {
-          ...state.nodes,
-          [nodeId]: { ...nodeWithoutOffset, updatedAt: new Date() } as MindMapNode,
+        currentMap: state.currentMap && {
+          ...state.currentMap,
+          settings: { ...state.currentMap.settings, layoutMode: mode },
         },
+        nodes: newNodes,
+        history: skipHistory
+          ? state.history
+          : this.recordAction(state.history, {
+              type: 'SET_LAYOUT_MODE',
+              from,
+              to: mode,
+              placements,
+            }),
       };
     });
+
+    // Mark as dirty for auto-save
+    this.markNodesDirty(Object.keys(placements));
+    this.markMapDirty(); // Settings and preview need update
+  }
+
+  /**
+   * Remove every remaining overlap by nudging nodes the smallest distance apart.
+   * Nodes that don't overlap keep their placement; nudged nodes keep their new
+   * spot (pinned in freeform mode, as a manual offset in auto mode).
+   */
+  tidyUp(): void {
+    const state = this._state();
+    const rootId = state.currentMap?.rootNodeId;
+    if (!rootId) return;
+
+    const positions = this.nodePositions();
+    const tidied = this.layoutService.resolveOverlaps(
+      state.nodes,
+      rootId,
+      positions,
+      this._nodeSizes(),
+      new Set<string>(),
+      this.layoutService.getCrossAxis(this.layoutStyle())
+    );
+
+    const freeform = this.layoutMode() === 'freeform';
+    const layout = this.computedLayout();
+    const before: Record<string, NodePlacement> = {};
+    const after: Record<string, NodePlacement> = {};
+
+    for (const [nodeId, pos] of Object.entries(tidied)) {
+      const current = positions[nodeId];
+      const node = state.nodes[nodeId];
+      if (!node || !current || (current.x === pos.x && current.y === pos.y)) continue;
+
+      before[nodeId] = { manualOffset: node.manualOffset, absolutePosition: node.absolutePosition };
+      after[nodeId] = freeform
+        ? { manualOffset: node.manualOffset, absolutePosition: pos }
+        : {
+            manualOffset: this.layoutService.calculateOffset(layout[nodeId] ?? { x: 0, y: 0 }, pos),
+            absolutePosition: node.absolutePosition,
+          };
+    }
+
+    if (Object.keys(after).length === 0) return;
+
+    this.applyPlacements(after);
+    this._state.update((current) => ({
+      ...current,
+      history: this.recordAction(current.history, {
+        type: 'TIDY_UP',
+        placements: { old: before, new: after },
+      }),
+    }));
   }
 
   // =========== View Controls ===========
@@ -576,6 +1390,126 @@ export class MindMapStore {
 
   // =========== History (Undo/Redo) ===========
 
+  /**
+   * Change the history depth limit and the edit coalescing window
+   */
+  private configureHistory(options: Partial<HistoryOptions>): void {
+    this.historyOptions = { ...this.historyOptions, ...options };
+    this._state.update((state) => ({
+      ...state,
+      history: { ...state.history, past: this.trimHistory(state.history.past) },
+    }));
+  }
+
+  /**
+   * Append an undoable action (clears the redo stack)
+   */
+  private recordAction(
+    history: MindMapState['history'],
+    action: MindMapAction
+  ): MindMapState['history'] {
+    return { past: this.trimHistory([...history.past, action]), future: [] };
+  }
+
+  /**
+   * Record a node update, merging it into the previous entry when the same fields
+   * of the same node were edited within the coalescing window
+   */
+  private recordUpdate(
+    history: MindMapState['history'],
+    nodeId: string,
+    before: Partial<MindMapNode>,
+    after: Partial<MindMapNode>
+  ): MindMapState['history'] {
+    const now = Date.now();
+    const last = history.past.at(-1);
+    const openStart = this.transactions.at(-1)?.start ?? 0;
+
+    const canCoalesce =
+      last?.type === 'UPDATE_NODE' &&
+      last.nodeId === nodeId &&
+      history.future.length === 0 &&
+      history.past.length > openStart &&
+      now - last.timestamp < this.historyOptions.coalesceWindowMs &&
+      this.haveSameKeys(last.after, after);
+
+    if (canCoalesce) {
+      const merged = { ...last, after: { ...last.after, ...after }, timestamp: now };
+      return { past: [...history.past.slice(0, -1), merged], future: [] };
+    }
+
+    return this.recordAction(history, {
+      type: 'UPDATE_NODE',
+      nodeId,
+      before,
+      after,
+      timestamp: now,
+    });
+  }
+
+  private countLabel(count: number, singular: string, plural: string): string {
+    return `${count} ${count === 1 ? singular : plural}`;
+  }
+
+  private haveSameKeys(a: object, b: object): boolean {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every((key) => key in b);
+  }
+
+  /**
+   * Drop the oldest entries beyond the depth limit (never while a transaction is open,
+   * since that would shift the transaction's start index)
+   */
+  private trimHistory(past: MindMapAction[]): MindMapAction[] {
+    const excess = past.length - this.historyOptions.maxDepth;
+    return excess > 0 && this.transactions.length === 0 ? past.slice(excess) : past;
+  }
+
+  // =========== Transactions ===========
+
+  /**
+   * Start grouping mutations into one undo step.
+   * Transactions nest; only the outermost commit records the group.
+   */
+  beginTransaction(label: string): void {
+    this.transactions.push({ label, start: this._state().history.past.length });
+  }
+
+  /**
+   * Finish the innermost transaction. The outermost one replaces every entry recorded
+   * since it began with a single BATCH entry (a lone entry is kept as is).
+   */
+  commitTransaction(): void {
+    const transaction = this.transactions.pop();
+    if (!transaction || this.transactions.length > 0) return;
+
+    const { label, start } = transaction;
+    this._state.update((state) => {
+      const actions = state.history.past.slice(start);
+      if (actions.length <= 1) return state;
+
+      return {
+        ...state,
+        history: this.recordAction(
+          { past: state.history.past.slice(0, start), future: [] },
+          { type: 'BATCH', label, actions }
+        ),
+      };
+    });
+  }
+
+  /**
+   * Run `fn` inside a transaction so all its mutations undo as one step
+   */
+  batch<T>(label: string, fn: () => T): T {
+    this.beginTransaction(label);
+    try {
+      return fn();
+    } finally {
+      this.commitTransaction();
+    }
+  }
+
   /**
    * Undo the last action
    */
@@ -614,8 +1548,37 @@ export class MindMapStore {
     }));
   }
 
+  /**
+   * Undo or redo until exactly `pastLength` entries are applied (history panel jump)
+   */
+  goToHistory(pastLength: number): void {
+    while (this._state().history.past.length > pastLength && this.canUndo()) {
+      this.undo();
+    }
+    while (this._state().history.past.length < pastLength && this.canRedo()) {
+      this.redo();
+    }
+  }
+
   // =========== Helper Methods ===========
 
+  /**
+   * Drop IDs whose ancestor is also in the list (the ancestor's subtree already covers them)
+   */
+  private getTopLevelIds(nodeIds: string[]): string[] {
+    const nodes = this._state().nodes;
+    const ids = new Set(nodeIds);
+
+    return nodeIds.filter((id) => {
+      let parentId = nodes[id]?.parentId;
+      while (parentId) {
+        if (ids.has(parentId)) return false;
+        parentId = nodes[parentId]?.parentId;
+      }
+      return !!nodes[id];
+    });
+  }
+
   private getDescendantIds(nodeId: string, nodes: Record<string, MindMapNode>): string[] {
     const node = nodes[nodeId];
     if (!node) return [];
@@ -641,7 +1604,7 @@ export class MindMapStore {
         this.deleteNode(action.node.id, true);
         break;
       case 'DELETE_NODE':
-        this.addNode(action.node, true);
+        this.restoreSubtree(action.node, action.descendants, action.index);
         break;
       case 'SET_OFFSET':
         // Restore old offsets for the node and all descendants
@@ -651,8 +1614,29 @@ export class MindMapStore {
           this.setOffsetDirect(action.nodeId, action.from);
         }
         break;
+      case 'SET_POSITION':
+        this.setAbsolutePositions(action.positions.old);
+        this.markNodesDirty(Object.keys(action.positions.old));
+        this.markMapDirty();
+        break;
+      case 'SET_LAYOUT_MODE':
+        this.restoreLayoutMode(action.from, action.placements);
+        break;
+      case 'TIDY_UP':
+        this.applyPlacements(action.placements.old);
+        break;
+      case 'REORDER_NODE':
+        this.reorderNode(action.nodeId, action.fromIndex, true);
+        break;
+      case 'REPARENT_NODE':
+        this.reparentNode(action.nodeId, action.fromParentId, action.fromIndex, true);
+        this.applyPlacements(action.placements);
+        break;
+      case 'BATCH':
+        [...action.actions].reverse().forEach((batched) => this.revertAction(batched));
+        break;
       case 'UPDATE_NODE':
-        this.updateNode(action.nodeId, action.before as Partial<MindMapNode>, true);
+        this.updateNode(action.nodeId, action.before, true);
         break;
     }
   }
@@ -673,8 +1657,28 @@ export class MindMapStore {
           this.setOffsetDirect(action.nodeId, action.to);
         }
         break;
+      case 'SET_POSITION':
+        this.setAbsolutePositions(action.positions.new);
+        this.markNodesDirty(Object.keys(action.positions.new));
+        this.markMapDirty();
+        break;
+      case 'SET_LAYOUT_MODE':
+        this.setLayoutMode(action.to, true);
+        break;
+      case 'TIDY_UP':
+        this.applyPlacements(action.placements.new);
+        break;
+      case 'REORDER_NODE':
+        this.reorderNode(action.nodeId, action.toIndex, true);
+        break;
+      case 'REPARENT_NODE':
+        this.reparentNode(action.nodeId, action.toParentId, action.toIndex, true);
+        break;
+      case 'BATCH':
+        action.actions.forEach((batched) => this.applyAction(batched));
+        break;
       case 'UPDATE_NODE':
-        this.updateNode(action.nodeId, action.after as Partial<MindMapNode>, true);
+        this.updateNode(action.nodeId, action.after, true);
         break;
     }
   }
@@ -691,10 +1695,13 @@ export class MindMapStore {
         ...state,
         nodes: {
           ...state.nodes,
-          [nodeId]: { ...node, manualOffset: offset },
+          [nodeId]: { ...node, manualOffset: offset, updatedAt: new Date() },
         },
       };
     });
+
+    this.markNodeDirty(nodeId);
+    this.markMapDirty(); // Preview needs update
   }
 
   /**
@@ -707,7 +1714,31 @@ export class MindMapStore {
       for (const [nodeId, offset] of Object.entries(offsets)) {
         const node = newNodes[nodeId];
         if (node) {
-          newNodes[nodeId] = { ...node, manualOffset: offset };
+          newNodes[nodeId] = { ...node, manualOffset: offset, updatedAt: new Date() };
+        }
+      }
+
+      return {
+        ...state,
+        nodes: newNodes,
+      };
+    });
+
+    this.markNodesDirty(Object.keys(offsets));
+    this.markMapDirty(); // Preview needs update
+  }
+
+  /**
+   * Set absolute positions for multiple nodes at once (undefined unpins the node)
+   */
+  private setAbsolutePositions(positions: Record<string, Position | undefined>): void {
+    this._state.update((state) => {
+      const newNodes = { ...state.nodes };
+
+      for (const [nodeId, absolutePosition] of Object.entries(positions)) {
+        const node = newNodes[nodeId];
+        if (node) {
+          newNodes[nodeId] = { ...node, absolutePosition, updatedAt: new Date() };
         }
       }
 
@@ -718,6 +1749,222 @@ export class MindMapStore {
     });
   }
 
+  /**
+   * Undo a layout mode conversion: restore the mode and every node's placement
+   */
+  private restoreLayoutMode(mode: LayoutMode, placements: Record<string, NodePlacement>): void {
+    this._state.update((state) => ({
+      ...state,
+      currentMap: state.currentMap && {
+        ...state.currentMap,
+        settings: { ...state.currentMap.settings, layoutMode: mode },
+      },
+    }));
+
+    this.applyPlacements(placements);
+  }
+
+  /**
+   * Put a deleted node and its descendants back, at its original index among its siblings
+   */
+  private restoreSubtree(node: MindMapNode, descendants: MindMapNode[], index: number): void {
+    const parentId = node.parentId;
+    const restoredIds = [node.id, ...descendants.map((descendant) => descendant.id)];
+    const changedIds = new Set(restoredIds);
+
+    this._state.update((state) => {
+      const newNodes = { ...state.nodes, [node.id]: node };
+      descendants.forEach((descendant) => (newNodes[descendant.id] = descendant));
+
+      const parent = parentId ? newNodes[parentId] : undefined;
+      if (parentId && parent) {
+        const childrenIds = parent.childrenIds.filter((id) => id !== node.id);
+        childrenIds.splice(index < 0 ? childrenIds.length : index, 0, node.id);
+        this.setChildren(newNodes, parentId, childrenIds).forEach((id) => changedIds.add(id));
+      }
+
+      return {
+        ...state,
+        nodes: newNodes,
+        selectedNodeId: node.id,
+        selectedNodeIds: [node.id],
+      };
+    });
+
+    // The nodes exist again - make sure auto-save writes them instead of deleting them
+    this._deletedNodeIds.update((set) => {
+      const newSet = new Set(set);
+      restoredIds.forEach((id) => newSet.delete(id));
+      return newSet;
+    });
+    this.markNodesDirty([...changedIds]);
+    this.markMapDirty(); // Preview needs update
+  }
+
+  /**
+   * Set a parent's childrenIds on a draft node record and renumber the children's `order`.
+   * Returns the IDs of every node that changed.
+   */
+  private setChildren(
+    nodes: Record<string, MindMapNode>,
+    parentId: string,
+    childrenIds: string[]
+  ): string[] {
+    const changedIds = [parentId];
+    nodes[parentId] = { ...nodes[parentId], childrenIds, updatedAt: new Date() };
+
+    childrenIds.forEach((id, order) => {
+      const child = nodes[id];
+      if (child && child.order !== order) {
+        nodes[id] = { ...child, order, updatedAt: new Date() };
+        changedIds.push(id);
+      }
+    });
+    return changedIds;
+  }
+
+  /**
+   * Overwrite offsets and pins of several nodes at once
+   */
+  private applyPlacements(placements: Record<string, NodePlacement>): void {
+    this._state.update((state) => {
+      const newNodes = { ...state.nodes };
+
+      for (const [nodeId, placement] of Object.entries(placements)) {
+        const node = newNodes[nodeId];
+        if (node) {
+          newNodes[nodeId] = { ...node, ...placement, updatedAt: new Date() };
+        }
+      }
+
+      return {
+        ...state,
+        nodes: newNodes,
+      };
+    });
+
+    this.markNodesDirty(Object.keys(placements));
+    this.markMapDirty();
+  }
+
+  /**
+   * What is drawn before a tree change, in freeform mode only
+   */
+  private getFreeformSnapshot(): FreeformSnapshot | null {
+    if (this.layoutMode() !== 'freeform') return null;
+    return { positions: this.nodePositions(), hiddenIds: this.hiddenNodeIds() };
+  }
+
+  /**
+   * Freeform mode keeps what's on screen when the tree changes: unpinned nodes the change
+   * moved are pinned back where they were drawn, and unpinned nodes it revealed (by
+   * expanding a branch) are placed next to their parent.
+   */
+  private pinMovedNodes(snapshot: FreeformSnapshot | null): void {
+    if (!snapshot) return;
+
+    const hidden = this.hiddenNodeIds();
+    const positions = this.nodePositions();
+    const pins: Record<string, Position> = {};
+    const revealedIds: string[] = [];
+
+    for (const [nodeId, node] of Object.entries(this._state().nodes)) {
+      if (node.absolutePosition || hidden.has(nodeId)) continue;
+
+      const before = snapshot.positions[nodeId];
+      const after = positions[nodeId];
+      if (!before || snapshot.hiddenIds.has(nodeId)) {
+        revealedIds.push(nodeId);
+      } else if (!after || before.x !== after.x || before.y !== after.y) {
+        pins[nodeId] = before;
+      }
+    }
+
+    if (Object.keys(pins).length > 0) {
+      this.setAbsolutePositions(pins);
+    }
+    const placements = this.getFreeformPlacements(this._state().nodes, revealedIds);
+    if (Object.keys(placements).length > 0) {
+      this.setAbsolutePositions(placements);
+    }
+
+    const pinnedIds = [...Object.keys(pins), ...Object.keys(placements)];
+    if (pinnedIds.length > 0) {
+      this.markNodesDirty(pinnedIds);
+    }
+  }
+
+  /**
+   * Where nodes land in freeform mode when they join the tree (added, moved to another
+   * parent or revealed by expanding a branch): the same spot relative to their parent
+   * that the layout of `nodes` gives them, measured from where the parent is drawn,
+   * then pushed off the nodes already on screen.
+   * Nodes inside collapsed branches get no placement.
+   */
+  private getFreeformPlacements(
+    nodes: Record<string, MindMapNode>,
+    nodeIds: string[]
+  ): Record<string, Position> {
+    if (nodeIds.length === 0) return {};
+
+    const rootId = this._state().currentMap?.rootNodeId;
+    const layout = this.layoutService.computeLayout(
+      nodes,
+      rootId,
+      this.layoutStyle(),
+      this._nodeSizes()
+    );
+    const current = this.nodePositions();
+    const pending = new Set(nodeIds);
+    const placements: Record<string, Position> = {};
+
+    const place = (nodeId: string): Position | undefined => {
+      if (!pending.has(nodeId)) return current[nodeId];
+      if (placements[nodeId]) return placements[nodeId];
+
+      const parentId = nodes[nodeId]?.parentId;
+      const parentPos = parentId ? place(parentId) : undefined;
+      const childComputed = layout[nodeId];
+      const parentComputed = parentId ? layout[parentId] : undefined;
+      if (!parentPos || !childComputed || !parentComputed) return undefined;
+
+      placements[nodeId] = {
+        x: parentPos.x + childComputed.x - parentComputed.x,
+        y: parentPos.y + childComputed.y - parentComputed.y,
+      };
+      return placements[nodeId];
+    };
+    nodeIds.forEach((id) => place(id));
+
+    // Only the new placements may move; everything else stays where it is drawn
+    const fixedIds = new Set(Object.keys(nodes).filter((id) => !placements[id]));
+    const resolved = this.layoutService.resolveOverlaps(
+      nodes,
+      rootId,
+      { ...current, ...placements },
+      this._nodeSizes(),
+      fixedIds,
+      this.layoutService.getCrossAxis(this.layoutStyle())
+    );
+
+    return Object.fromEntries(Object.keys(placements).map((id) => [id, resolved[id]]));
+  }
+
+  /**
+   * Nodes the user placed by hand (they never move during overlap resolution)
+   */
+  private getManuallyPlacedIds(nodes: Record<string, MindMapNode>): Set<string> {
+    const freeform = this.layoutMode() === 'freeform';
+    const ids = new Set<string>();
+
+    for (const node of Object.values(nodes)) {
+      if (node.manualOffset || (freeform && node.absolutePosition)) {
+        ids.add(node.id);
+      }
+    }
+    return ids;
+  }
+
   /**
    * Generate a unique ID
    */